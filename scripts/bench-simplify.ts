@@ -0,0 +1,95 @@
+/**
+ * Benchmark of parseFigmaResponse over a generated file with thousands of distinct styles.
+ *
+ * Style lookups used to compare the serialized value against every style registered so far, so
+ * parse time grew with the square of the style count. The benchmark parses the fixture at two
+ * sizes: with indexed lookups, four times the nodes takes roughly four times as long, where the
+ * old lookups took roughly sixteen times as long.
+ *
+ * Usage: pnpm bench [nodes], defaults to 5000 nodes
+ */
+import type { GetFileResponse, Node } from "@figma/rest-api-spec";
+import { parseFigmaResponse } from "../src/services/simplify-node-response.js";
+
+const RUNS = 3;
+
+// Every rectangle gets a distinct fill, size and corner radius, so each one adds new styles
+function buildFixture(count: number): GetFileResponse {
+  const children = Array.from({ length: count }, (_, i) => ({
+    id: `1:${i}`,
+    name: `Rectangle ${i}`,
+    type: "RECTANGLE",
+    fills: [
+      {
+        type: "SOLID",
+        blendMode: "NORMAL",
+        color: { r: (i % 97) / 97, g: (i % 89) / 89, b: (i % 83) / 83, a: 1 },
+      },
+    ],
+    strokes: [],
+    effects: [],
+    cornerRadius: i % 24,
+    absoluteBoundingBox: {
+      x: (i % 100) * 20,
+      y: Math.floor(i / 100) * 20,
+      width: 10 + (i % 50),
+      height: 10,
+    },
+  }));
+
+  return {
+    name: "Benchmark",
+    lastModified: new Date(0).toISOString(),
+    components: {},
+    componentSets: {},
+    styles: {},
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      children: [
+        {
+          id: "0:1",
+          name: "Page",
+          type: "CANVAS",
+          children: [
+            {
+              id: "0:2",
+              name: "Frame",
+              type: "FRAME",
+              clipsContent: true,
+              absoluteBoundingBox: { x: 0, y: 0, width: 2000, height: 2000 },
+              children: children as unknown as Node[],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as GetFileResponse;
+}
+
+// Median of a few runs, after a warm-up parse
+function measure(file: GetFileResponse): { ms: number; styles: number } {
+  const result = parseFigmaResponse(file);
+  const times = Array.from({ length: RUNS }, () => {
+    const start = performance.now();
+    parseFigmaResponse(file);
+    return performance.now() - start;
+  }).sort((a, b) => a - b);
+  return { ms: times[Math.floor(RUNS / 2)], styles: Object.keys(result.globalVars.styles).length };
+}
+
+const count = Number(process.argv[2] ?? 5000);
+const small = measure(buildFixture(count));
+const large = measure(buildFixture(count * 4));
+const ratio = large.ms / small.ms;
+
+console.log(`${count} nodes, ${small.styles} styles: ${small.ms.toFixed(0)}ms`);
+console.log(`${count * 4} nodes, ${large.styles} styles: ${large.ms.toFixed(0)}ms`);
+console.log(`4x the nodes took ${ratio.toFixed(1)}x as long (linear ~4x, quadratic ~16x)`);
+
+// Leave headroom for noise, well below what quadratic lookups produce
+if (ratio > 8) {
+  console.error("Parse time grows faster than linearly with the number of styles");
+  process.exit(1);
+}
@@ -0,0 +1,150 @@
+/**
+ * Fixture check of diffDesigns over two versions of a small file.
+ *
+ * Between the versions, a card's auto layout gap grows, its footer moves to the top, a badge moves
+ * from the sidebar into the card, one rectangle is deleted and a new group of nodes is added. Both
+ * versions go through parseFigmaResponse separately, like diff_figma_versions does, so styles are
+ * compared by value rather than by their generated ids.
+ *
+ * Usage: pnpm check-diff
+ */
+import type { GetFileResponse, Node } from "@figma/rest-api-spec";
+import { diffDesigns } from "../src/services/diff-design.js";
+import { parseFigmaResponse } from "../src/services/simplify-node-response.js";
+
+interface FixtureNode {
+  id: string;
+  name: string;
+  type?: string;
+  x?: number;
+  y?: number;
+  gap?: number;
+  children?: FixtureNode[];
+}
+
+function buildNode({ id, name, type, x = 0, y = 0, gap, children }: FixtureNode): object {
+  return {
+    id,
+    name,
+    type: type ?? (children ? "FRAME" : "RECTANGLE"),
+    fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 1, g: 1, b: 1, a: 1 } }],
+    strokes: [],
+    effects: [],
+    absoluteBoundingBox: { x, y, width: 100, height: 40 },
+    ...(gap !== undefined && {
+      layoutMode: "VERTICAL",
+      itemSpacing: gap,
+      primaryAxisSizingMode: "AUTO",
+      counterAxisSizingMode: "FIXED",
+    }),
+    ...(children && { clipsContent: false, children: children.map(buildNode) }),
+  };
+}
+
+function buildFile(lastModified: string, nodes: FixtureNode[]): GetFileResponse {
+  return {
+    name: "Diff fixture",
+    lastModified,
+    components: {},
+    componentSets: {},
+    styles: {},
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      children: [
+        {
+          id: "0:1",
+          name: "Page",
+          type: "CANVAS",
+          children: nodes.map(buildNode) as Node[],
+        },
+      ],
+    },
+  } as unknown as GetFileResponse;
+}
+
+const before = buildFile("2024-01-01T00:00:00Z", [
+  {
+    id: "1:1",
+    name: "Card",
+    gap: 8,
+    children: [
+      { id: "1:2", name: "Title" },
+      { id: "1:3", name: "Body" },
+      { id: "1:4", name: "Footer" },
+    ],
+  },
+  {
+    id: "1:5",
+    name: "Sidebar",
+    x: 200,
+    children: [{ id: "1:6", name: "Badge", x: 210, y: 10 }],
+  },
+  { id: "1:7", name: "Divider", x: 400 },
+]);
+
+const after = buildFile("2024-02-01T00:00:00Z", [
+  {
+    id: "1:1",
+    name: "Card",
+    gap: 16,
+    children: [
+      { id: "1:4", name: "Footer" },
+      { id: "1:2", name: "Title" },
+      { id: "1:3", name: "Body" },
+      { id: "1:6", name: "Badge" },
+    ],
+  },
+  { id: "1:5", name: "Sidebar", x: 200, children: [] },
+  {
+    id: "1:8",
+    name: "Banner",
+    x: 600,
+    children: [{ id: "1:9", name: "Banner Image", x: 600 }],
+  },
+]);
+
+const diff = diffDesigns(parseFigmaResponse(before), parseFigmaResponse(after));
+
+const failures: string[] = [];
+const check = (condition: boolean, message: string) => {
+  if (!condition) failures.push(message);
+};
+const moved = (id: string) => diff.moved.find((node) => node.id === id);
+const changes = (id: string) => diff.changed.find((node) => node.id === id)?.changes ?? [];
+
+check(
+  diff.added.map(({ id }) => id).join() === "1:8",
+  `Expected only the new Banner to be added, got ${JSON.stringify(diff.added)}`,
+);
+check(
+  diff.removed.map(({ id }) => id).join() === "1:7",
+  `Expected only the Divider to be removed, got ${JSON.stringify(diff.removed)}`,
+);
+
+check(moved("1:4")?.reordered === true, "Expected the Footer to be reordered");
+check(
+  !moved("1:2") && !moved("1:3"),
+  "Expected the Title and Body to keep their places, since only the Footer moved",
+);
+
+const badge = moved("1:6");
+check(
+  badge?.fromParentId === "1:5" && badge.toParentId === "1:1",
+  `Expected the Badge to move from the Sidebar to the Card, got ${JSON.stringify(badge)}`,
+);
+check(!badge?.reordered, "Expected the reparented Badge not to be reported as reordered");
+
+const gap = changes("1:1").find(({ field }) => field === "layout.gap");
+check(
+  gap?.before === "8px" && gap.after === "16px",
+  `Expected the Card's layout.gap to change from 8px to 16px, got ${JSON.stringify(changes("1:1"))}`,
+);
+
+console.log(JSON.stringify(diff.summary));
+if (failures.length) {
+  failures.forEach((failure) => console.error(failure));
+  process.exit(1);
+}
+console.log("diffDesigns reports the fixture's changes as expected");
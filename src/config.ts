@@ -7,6 +7,10 @@ config();
 
 interface ServerConfig {
   figmaApiKey: string;
+  // Only set when overridden, e.g. to point at a local stand-in for the Figma API
+  figmaApiBaseUrl?: string;
+  // Team whose projects are browsed when a tool call doesn't name one
+  figmaTeamId?: string;
   port: number;
   jira: {
     domain: string;
@@ -15,6 +19,8 @@ interface ServerConfig {
   };
   configSources: {
     figmaApiKey: "cli" | "env";
+    figmaApiBaseUrl: "cli" | "env" | "default";
+    figmaTeamId: "cli" | "env" | "none";
     port: "cli" | "env" | "default";
     jiraDomain: "cli" | "env" | "none";
     jiraEmail: "cli" | "env" | "none";
@@ -29,6 +35,8 @@ function maskApiKey(key: string): string {
 
 interface CliArgs {
   "figma-api-key"?: string;
+  "figma-api-base-url"?: string;
+  "figma-team-id"?: string;
   port?: number;
   "jira-domain"?: string;
   "jira-email"?: string;
@@ -43,6 +51,14 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
         type: "string",
         description: "Figma API key",
       },
+      "figma-api-base-url": {
+        type: "string",
+        description: "Base URL of the Figma REST API, e.g. a local stand-in for testing",
+      },
+      "figma-team-id": {
+        type: "string",
+        description: "Default Figma team id for listing projects and files",
+      },
       port: {
         type: "number",
         description: "Port to run the server on",
@@ -74,6 +90,8 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
     },
     configSources: {
       figmaApiKey: "env",
+      figmaApiBaseUrl: "default",
+      figmaTeamId: "none",
       port: "default",
       jiraDomain: "none",
       jiraEmail: "none",
@@ -90,6 +108,24 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
     config.configSources.figmaApiKey = "env";
   }
 
+  // Handle FIGMA_API_BASE_URL
+  if (argv["figma-api-base-url"]) {
+    config.figmaApiBaseUrl = argv["figma-api-base-url"];
+    config.configSources.figmaApiBaseUrl = "cli";
+  } else if (process.env.FIGMA_API_BASE_URL) {
+    config.figmaApiBaseUrl = process.env.FIGMA_API_BASE_URL;
+    config.configSources.figmaApiBaseUrl = "env";
+  }
+
+  // Handle FIGMA_TEAM_ID
+  if (argv["figma-team-id"]) {
+    config.figmaTeamId = argv["figma-team-id"];
+    config.configSources.figmaTeamId = "cli";
+  } else if (process.env.FIGMA_TEAM_ID) {
+    config.figmaTeamId = process.env.FIGMA_TEAM_ID;
+    config.configSources.figmaTeamId = "env";
+  }
+
   // Handle PORT
   if (argv.port) {
     config.port = argv.port;
@@ -138,6 +174,16 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
     console.log(
       `- FIGMA_API_KEY: ${maskApiKey(config.figmaApiKey)} (source: ${config.configSources.figmaApiKey})`,
     );
+    if (config.figmaApiBaseUrl) {
+      console.log(
+        `- FIGMA_API_BASE_URL: ${config.figmaApiBaseUrl} (source: ${config.configSources.figmaApiBaseUrl})`,
+      );
+    }
+    if (config.figmaTeamId) {
+      console.log(
+        `- FIGMA_TEAM_ID: ${config.figmaTeamId} (source: ${config.configSources.figmaTeamId})`,
+      );
+    }
     console.log(`- PORT: ${config.port} (source: ${config.configSources.port})`);
     
     // Log Jira config if available
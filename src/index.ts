@@ -25,7 +25,10 @@ export async function startServer(): Promise<void> {
     }
     : undefined;
 
-  const server = new FigmaMcpServer(config.figmaApiKey, jiraConfig);
+  const server = new FigmaMcpServer(config.figmaApiKey, jiraConfig, {
+    baseUrl: config.figmaApiBaseUrl,
+    teamId: config.figmaTeamId,
+  });
 
   if (isStdioMode) {
     const transport = new StdioServerTransport();
@@ -1,26 +1,59 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { FigmaService } from "./services/figma.js";
+import {
+  DEFAULT_IMAGE_SCALE,
+  FigmaService,
+  FigmaServiceOptions,
+  ImageFormat,
+} from "./services/figma.js";
 import { JiraService } from "./services/jira.js";
 import express, { Request, Response } from "express";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { IncomingMessage, ServerResponse } from "http";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { SimplifiedDesign } from "./services/simplify-node-response.js";
+import { generateComponentCode } from "./services/generate-component-code.js";
+import { writeDesignTokens } from "./services/export-design-tokens.js";
+import { formatDesign, includeGroups, projectDesign } from "./services/format-design.js";
+import { DEFAULT_PAGE_TOKENS, paginateDesign } from "./services/paginate-design.js";
+import { DEFAULT_SEARCH_LIMIT, searchNodes } from "./services/search-nodes.js";
+import { buildPrototypeFlows } from "./services/prototype-flows.js";
+import { diffDesigns } from "./services/diff-design.js";
+import { normalizeNodeId, resolveFigmaTarget } from "./utils/figma-url.js";
+import { formatImageFileName } from "./utils/common.js";
 
 export const Logger = {
   log: (...args: any[]) => {},
   error: (...args: any[]) => {},
 };
 
+// Accepted by every Figma tool as an alternative to passing fileKey and nodeId
+const figmaUrl = z
+  .string()
+  .optional()
+  .describe(
+    "A link to the Figma file or node, e.g. https://www.figma.com/design/<fileKey>/<name>?node-id=1-23. Design, prototype, FigJam, branch and embed links are accepted. Use instead of fileKey and nodeId",
+  );
+
+// Infer the render format from a file name's extension, e.g. "hero.jpeg"
+function imageFormatOf(fileName: string): ImageFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "jpeg") return "jpg";
+  return extension === "svg" || extension === "jpg" || extension === "pdf" ? extension : "png";
+}
+
 export class FigmaMcpServer {
   private readonly server: McpServer;
   private readonly figmaService: FigmaService;
   private readonly jiraService: JiraService | null = null;
   private sseTransport: SSEServerTransport | null = null;
 
-  constructor(figmaApiKey: string, jiraConfig?: { domain: string; email: string; apiToken: string }) {
-    this.figmaService = new FigmaService(figmaApiKey);
+  constructor(
+    figmaApiKey: string,
+    jiraConfig?: { domain: string; email: string; apiToken: string },
+    figmaOptions?: FigmaServiceOptions,
+  ) {
+    this.figmaService = new FigmaService(figmaApiKey, figmaOptions);
     
     if (jiraConfig && jiraConfig.domain && jiraConfig.email && jiraConfig.apiToken) {
       this.jiraService = new JiraService(jiraConfig.domain, jiraConfig.email, jiraConfig.apiToken);
@@ -48,10 +81,12 @@ export class FigmaMcpServer {
       "get_figma_data",
       "When the nodeId cannot be obtained, obtain the layout information about the entire Figma file",
       {
+        url: figmaUrl,
         fileKey: z
           .string()
+          .optional()
           .describe(
-            "The key of the Figma file to fetch, often found in a provided URL like figma.com/(file|design)/<fileKey>/...",
+            "The key of the Figma file to fetch, often found in a provided URL like figma.com/(file|design)/<fileKey>/... Not needed when url is given",
           ),
         nodeId: z
           .string()
@@ -65,9 +100,51 @@ export class FigmaMcpServer {
           .describe(
             "How many levels deep to traverse the node tree, only use if explicitly requested by the user",
           ),
+        rawGradients: z
+          .boolean()
+          .optional()
+          .describe(
+            "Include Figma's raw gradient handle positions and stops alongside the CSS gradient strings, only use if the CSS output is not enough",
+          ),
+        format: z
+          .enum(["json", "json-compact", "yaml", "outline"])
+          .optional()
+          .describe(
+            "Output format, defaults to json. yaml and json-compact carry the same data in fewer tokens; outline prints one line per node followed by the referenced styles",
+          ),
+        include: z
+          .enum(includeGroups)
+          .array()
+          .optional()
+          .describe(
+            "Only return these groups of node fields, e.g. [\"layout\", \"text\"]. Node ids, names, types and children are always returned. Omit to return everything. Variable bindings are only resolved when \"variables\" is included or this is omitted, and require an Enterprise plan",
+          ),
+        maxTokens: z
+          .number()
+          .optional()
+          .describe(
+            "Approximate size budget for the response. Large files are cut off at the budget and return a continuation with a cursor for the next page",
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "The continuation cursor of a previous page, to fetch the next page. Pass the same fileKey, nodeId, depth and include as before",
+          ),
       },
-      async ({ fileKey, nodeId, depth }) => {
+      async ({
+        url,
+        fileKey,
+        nodeId,
+        depth,
+        rawGradients,
+        format = "json",
+        include,
+        maxTokens,
+        cursor,
+      }) => {
         try {
+          ({ fileKey, nodeId } = resolveFigmaTarget(url, fileKey, nodeId));
           Logger.log(
             `Fetching ${
               depth ? `${depth} layers deep` : "all layers"
@@ -76,25 +153,31 @@ export class FigmaMcpServer {
 
           let file: SimplifiedDesign;
           if (nodeId) {
-            file = await this.figmaService.getNode(fileKey, nodeId, depth);
+            file = await this.figmaService.getNode(fileKey, nodeId, depth, {
+              rawGradients,
+              includeMeasurements: !include || include.includes("annotations"),
+              includeVariables: !include || include.includes("variables"),
+            });
           } else {
-            file = await this.figmaService.getFile(fileKey, depth);
+            file = await this.figmaService.getFile(fileKey, depth, {
+              rawGradients,
+              includeVariables: !include || include.includes("variables"),
+            });
           }
 
           Logger.log(`Successfully fetched file: ${file.name}`);
-          const { nodes, globalVars, ...metadata } = file;
-
-          // Stringify each node individually to try to avoid max string length error with big files
-          const nodesJson = `[${nodes.map((node) => JSON.stringify(node, null, 2)).join(",")}]`;
-          const metadataJson = JSON.stringify(metadata, null, 2);
-          const globalVarsJson = JSON.stringify(globalVars, null, 2);
-          const resultJson = `{ "metadata": ${metadataJson}, "nodes": ${nodesJson}, "globalVars": ${globalVarsJson} }`;
+          if (include) {
+            file = projectDesign(file, include);
+          }
+          if (maxTokens || cursor) {
+            file = paginateDesign(file, maxTokens ?? DEFAULT_PAGE_TOKENS, cursor, format);
+          }
 
           return {
-            content: [{ type: "text", text: resultJson }],
+            content: [{ type: "text", text: formatDesign(file, format) }],
           };
         } catch (error) {
-          Logger.error(`Error fetching file ${fileKey}:`, error);
+          Logger.error(`Error fetching file ${fileKey ?? url}:`, error);
           return {
             isError: true,
             content: [{ type: "text", text: `Error fetching file: ${error}` }],
@@ -103,6 +186,669 @@ export class FigmaMcpServer {
       },
     );
 
+    // Tool to get the structure of a file
+    this.server.tool(
+      "get_figma_outline",
+      "Get the pages, sections, top-level frames and component sets of a Figma file with their IDs, sizes and child counts. Use this first on large files to find the nodeId to pass to get_figma_data",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe(
+            "The key of the Figma file to outline, often found in a provided URL like figma.com/(file|design)/<fileKey>/... Not needed when url is given",
+          ),
+      },
+      async ({ url, fileKey }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          Logger.log(`Fetching outline of file ${fileKey}`);
+          const outline = await this.figmaService.getFileOutline(fileKey);
+          Logger.log(`Successfully fetched outline with ${outline.pages.length} pages`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(outline, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching outline of file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching file outline: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to generate component code from a node
+    this.server.tool(
+      "generate_component_code",
+      "Generate markup and styles for a Figma node, either HTML/CSS, React with CSS modules or React with Tailwind",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file containing the node, not needed when url is given"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe(
+            "The ID of the node to generate code for, formatted as 1234:5678. Not needed when url links to the node",
+          ),
+        target: z
+          .enum(["html-css", "react-jsx-css-modules", "react-tailwind"])
+          .describe("The kind of code to generate"),
+        componentName: z
+          .string()
+          .optional()
+          .describe("Name of the generated component, defaults to the node's name"),
+      },
+      async ({ url, fileKey, nodeId, target, componentName }) => {
+        try {
+          ({ fileKey, nodeId } = resolveFigmaTarget(url, fileKey, nodeId));
+          if (!nodeId) {
+            throw new Error("Pass the nodeId of the component, or a url with a node-id");
+          }
+          Logger.log(`Generating ${target} code for node ${nodeId} from file ${fileKey}`);
+          const design = await this.figmaService.getNode(fileKey, nodeId);
+          const result = generateComponentCode(design, target, componentName);
+
+          const files = result.files.map(({ fileName, content }) => ({
+            type: "text" as const,
+            text: `// ${fileName}\n${content}`,
+          }));
+          const assets = result.assets.length
+            ? [
+                {
+                  type: "text" as const,
+                  text: `Assets referenced by the generated code, download them with download_figma_images into ./assets:\n${JSON.stringify(result.assets, null, 2)}`,
+                },
+              ]
+            : [];
+
+          return {
+            content: [...files, ...assets],
+          };
+        } catch (error) {
+          Logger.error(
+            `Error generating code for node ${nodeId} from file ${fileKey ?? url}:`,
+            error,
+          );
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error generating component code: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to export design tokens
+    this.server.tool(
+      "export_design_tokens",
+      "Export the colors, typography, spacing, radii, shadows and blurs of a Figma file as design tokens and write them to disk",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe(
+            "The key of the Figma file to export tokens from, not needed when url is given",
+          ),
+        format: z
+          .enum(["dtcg", "css", "scss", "tailwind"])
+          .describe(
+            "Output format: W3C Design Tokens JSON, CSS custom properties, SCSS variables or a Tailwind theme.extend object",
+          ),
+        localPath: z
+          .string()
+          .describe(
+            "The absolute path to the directory where the tokens file is written. If the directory does not exist, it will be created.",
+          ),
+        fileName: z
+          .string()
+          .optional()
+          .describe(
+            "Name of the tokens file, defaults to tokens.json, tokens.css, _tokens.scss or tailwind.tokens.js",
+          ),
+      },
+      async ({ url, fileKey, format, localPath, fileName }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          Logger.log(`Exporting ${format} design tokens from file ${fileKey}`);
+          // Raw gradients carry the stops needed for gradient tokens
+          const design = await this.figmaService.getFile(fileKey, undefined, {
+            rawGradients: true,
+            includeVariables: true,
+          });
+          const { filePath, tokens } = writeDesignTokens(design, format, localPath, fileName);
+
+          const counts = tokens.reduce<Record<string, number>>((acc, token) => {
+            acc[token.category] = (acc[token.category] ?? 0) + 1;
+            return acc;
+          }, {});
+          const summary = Object.entries(counts)
+            .map(([category, count]) => `${count} ${category}`)
+            .join(", ");
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Success, ${tokens.length} tokens written to ${filePath}${summary ? ` (${summary})` : ""}`,
+              },
+            ],
+          };
+        } catch (error) {
+          Logger.error(`Error exporting design tokens from file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error exporting design tokens: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to search for nodes
+    this.server.tool(
+      "search_figma_nodes",
+      "Find layers in a Figma file by name, type, text content, component or page, returning node IDs to pass to get_figma_data",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file to search, not needed when url is given"),
+        name: z
+          .string()
+          .optional()
+          .describe(
+            'Layer name to match, either a case-insensitive glob such as "Button*" or a regular expression in slashes such as "/^icon-/i"',
+          ),
+        types: z
+          .string()
+          .array()
+          .optional()
+          .describe('Node types to match, e.g. ["FRAME", "INSTANCE", "TEXT"]'),
+        text: z
+          .string()
+          .optional()
+          .describe("Case-insensitive text that TEXT nodes must contain"),
+        componentName: z
+          .string()
+          .optional()
+          .describe(
+            "Component or component set name that instances must use, as a glob or regular expression",
+          ),
+        page: z.string().optional().describe("Only search the page with this name or ID"),
+        limit: z
+          .number()
+          .optional()
+          .describe("Maximum number of matches to return (default: 50)"),
+      },
+      async ({ url, fileKey, ...filters }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          Logger.log(`Searching nodes in file ${fileKey}:`, filters);
+          const file = await this.figmaService.getRawFile(fileKey);
+          const { results, truncated } = searchNodes(file, filters);
+          Logger.log(`Found ${results.length} matching nodes`);
+
+          const note = truncated
+            ? `\nMore nodes matched than the limit of ${filters.limit ?? DEFAULT_SEARCH_LIMIT}, narrow the filters or raise the limit.`
+            : "";
+          return {
+            content: [{ type: "text", text: `${JSON.stringify(results, null, 2)}${note}` }],
+          };
+        } catch (error) {
+          Logger.error(`Error searching nodes in file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error searching nodes: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to map a file's prototype as a navigation graph
+    this.server.tool(
+      "get_figma_prototype_flows",
+      "Get the prototype flows of a Figma file as a navigation graph: the screens of each flow and the interactions between them, with their triggers, destinations and transitions",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe(
+            "The key of the Figma file containing the prototype, not needed when url is given",
+          ),
+        flow: z.string().optional().describe("Only return the flow with this name"),
+      },
+      async ({ url, fileKey, flow }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          Logger.log(`Fetching prototype flows of file ${fileKey}${flow ? ` (${flow})` : ""}`);
+          const file = await this.figmaService.getRawFile(fileKey);
+          const prototype = buildPrototypeFlows(file, flow);
+          Logger.log(`Found ${prototype.flows.length} flows`);
+
+          const note = prototype.flows.length
+            ? ""
+            : "\nThis file has no prototype flows, add a flow starting point in Figma's prototype settings.";
+          return {
+            content: [{ type: "text", text: `${JSON.stringify(prototype, null, 2)}${note}` }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching prototype flows of file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching prototype flows: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to list the saved versions of a file
+    this.server.tool(
+      "get_figma_versions",
+      "List the version history of a Figma file, newest first, with version IDs to pass to diff_figma_versions",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file, not needed when url is given"),
+        before: z
+          .string()
+          .optional()
+          .describe("Only list versions older than this version ID, to fetch the next page"),
+      },
+      async ({ url, fileKey, before }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          Logger.log(`Fetching versions of file ${fileKey}${before ? ` before ${before}` : ""}`);
+          const { versions, nextBefore } = await this.figmaService.getVersions(fileKey, before);
+          Logger.log(`Found ${versions.length} versions`);
+
+          const note = nextBefore
+            ? `\nThere are older versions, pass before: "${nextBefore}" to list them.`
+            : "";
+          return {
+            content: [{ type: "text", text: `${JSON.stringify(versions, null, 2)}${note}` }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching versions of file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching versions: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to compare two versions of a file or node
+    this.server.tool(
+      "diff_figma_versions",
+      "Compare two versions of a Figma file or node and report the added, removed and moved nodes and the changed text, fills, layout and typography",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file, not needed when url is given"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe(
+            "The ID of the node to compare, formatted as 1234:5678. Omit to compare the whole file",
+          ),
+        fromVersion: z.string().describe("The ID of the older version, from get_figma_versions"),
+        toVersion: z
+          .string()
+          .optional()
+          .describe("The ID of the newer version, omit to compare against the current file"),
+      },
+      async ({ url, fileKey, nodeId, fromVersion, toVersion }) => {
+        try {
+          const target = resolveFigmaTarget(url, fileKey, nodeId);
+          Logger.log(
+            `Comparing ${target.nodeId ? `node ${target.nodeId} of ` : ""}file ${target.fileKey} between versions ${fromVersion} and ${toVersion ?? "current"}`,
+          );
+          const fetchVersion = (version?: string) =>
+            target.nodeId
+              ? this.figmaService.getNode(target.fileKey, target.nodeId, undefined, {}, version)
+              : this.figmaService.getFile(target.fileKey, undefined, {}, version);
+          const [before, after] = await Promise.all([
+            fetchVersion(fromVersion),
+            fetchVersion(toVersion),
+          ]);
+          const diff = diffDesigns(before, after);
+          Logger.log(`Compared versions:`, diff.summary);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(diff, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error comparing versions of file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error comparing versions: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to read the comment threads of a file
+    this.server.tool(
+      "get_figma_comments",
+      "List the comment threads of a Figma file with their replies, authors, resolved state and the node each thread is pinned to",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe(
+            "The key of the Figma file to read comments from, not needed when url is given",
+          ),
+        nodeId: z
+          .string()
+          .optional()
+          .describe("Only return threads pinned to this node, formatted as 1234:5678"),
+        status: z
+          .enum(["open", "resolved"])
+          .optional()
+          .describe("Only return open or resolved threads, omit for both"),
+      },
+      async ({ url, fileKey, nodeId, status }) => {
+        try {
+          ({ fileKey, nodeId } = resolveFigmaTarget(url, fileKey, nodeId));
+          const filters = { nodeId, status };
+          Logger.log(`Fetching comments of file ${fileKey}:`, filters);
+          const threads = await this.figmaService.getComments(fileKey, filters);
+          Logger.log(`Found ${threads.length} comment threads`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(threads, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching comments of file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching comments: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to start a comment thread on a node or reply to one
+    this.server.tool(
+      "post_figma_comment",
+      "Post a comment to a Figma file, either a new thread pinned to a node or a reply to an existing thread",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file to comment on, not needed when url is given"),
+        message: z.string().describe("The text of the comment"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe(
+            "The ID of the node to pin a new thread to, formatted as 1234:5678. Omit when replying",
+          ),
+        replyTo: z
+          .string()
+          .optional()
+          .describe("The ID of the thread to reply to, as returned by get_figma_comments"),
+      },
+      async ({ url, fileKey, message, nodeId, replyTo }) => {
+        try {
+          const target = resolveFigmaTarget(url, fileKey, nodeId);
+          fileKey = target.fileKey;
+          // Replies sit in their thread, so the node-id of a link doesn't apply to them
+          nodeId = replyTo ? nodeId : target.nodeId;
+          const comment = await this.figmaService.postComment(fileKey, message, {
+            nodeId,
+            replyTo,
+          });
+          Logger.log(`Posted comment ${comment.id} to file ${fileKey}`);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ id: comment.id, createdAt: comment.created_at }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          Logger.error(`Error posting comment to file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error posting comment: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to list the implementation links attached to nodes
+    this.server.tool(
+      "get_figma_dev_resources",
+      "List the dev resources of a Figma file: links from nodes to their implementation, such as Storybook stories or GitHub files",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file, not needed when url is given"),
+        nodeIds: z
+          .string()
+          .array()
+          .optional()
+          .describe("Only list the resources attached to these nodes, formatted as 1234:5678"),
+      },
+      async ({ url, fileKey, nodeIds }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          Logger.log(`Fetching dev resources of file ${fileKey}`);
+          const resources = await this.figmaService.getDevResources(
+            fileKey,
+            nodeIds?.map(normalizeNodeId),
+          );
+          Logger.log(`Found ${resources.length} dev resources`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(resources, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching dev resources of file ${fileKey ?? url}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching dev resources: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to write an implementation link back to a node
+    this.server.tool(
+      "add_figma_dev_resource",
+      "Attach a link to a Figma node in Dev Mode, e.g. the component's source file or Storybook story",
+      {
+        figmaUrl: figmaUrl.describe(
+          "A link to the Figma node to attach the link to, e.g. https://www.figma.com/design/<fileKey>/<name>?node-id=1-23. Use instead of fileKey and nodeId",
+        ),
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file, not needed when figmaUrl is given"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe(
+            "The ID of the node to attach the link to, formatted as 1234:5678. Not needed when figmaUrl links to the node",
+          ),
+        url: z.string().url().describe("The URL to link to"),
+        name: z.string().describe('The title shown for the link, e.g. "Button.tsx"'),
+      },
+      async ({ figmaUrl, fileKey, nodeId, url, name }) => {
+        try {
+          ({ fileKey, nodeId } = resolveFigmaTarget(figmaUrl, fileKey, nodeId));
+          if (!nodeId) {
+            throw new Error("Pass the nodeId to attach the link to, or a figmaUrl with a node-id");
+          }
+          const resource = await this.figmaService.addDevResource(fileKey, { nodeId, url, name });
+          Logger.log(`Added dev resource ${resource.id} to node ${nodeId}`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(resource, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error adding dev resource to node ${nodeId}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error adding dev resource: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to remove an implementation link
+    this.server.tool(
+      "remove_figma_dev_resource",
+      "Remove a dev resource link from a Figma file",
+      {
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file, not needed when url is given"),
+        id: z
+          .string()
+          .describe("The ID of the dev resource, as returned by get_figma_dev_resources"),
+      },
+      async ({ url, fileKey, id }) => {
+        try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          await this.figmaService.deleteDevResource(fileKey, id);
+          Logger.log(`Removed dev resource ${id} from file ${fileKey}`);
+
+          return {
+            content: [{ type: "text", text: `Removed dev resource ${id}` }],
+          };
+        } catch (error) {
+          Logger.error(`Error removing dev resource ${id}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error removing dev resource: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to list the projects of a team
+    this.server.tool(
+      "list_figma_projects",
+      "List the projects of a Figma team with their IDs, to pass to list_figma_project_files",
+      {
+        teamId: z
+          .string()
+          .optional()
+          .describe(
+            "The ID of the team, found in links like figma.com/files/team/<teamId>/... Defaults to the configured team",
+          ),
+      },
+      async ({ teamId }) => {
+        try {
+          Logger.log(`Fetching projects of team ${teamId ?? "(default)"}`);
+          const projects = await this.figmaService.getProjects(teamId);
+          Logger.log(`Found ${projects.projects.length} projects in ${projects.team}`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(projects, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching projects of team ${teamId ?? "(default)"}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching projects: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to list the files of a project
+    this.server.tool(
+      "list_figma_project_files",
+      "List the files of a Figma project with their keys, thumbnails and last modified times, most recently modified first",
+      {
+        project: z
+          .string()
+          .describe('The ID of the project, or its name in the team, e.g. "Payments"'),
+        teamId: z
+          .string()
+          .optional()
+          .describe(
+            "The team to look a project name up in, defaults to the configured team. Not needed with a project ID",
+          ),
+        name: z
+          .string()
+          .optional()
+          .describe('Only list files whose name contains this text, e.g. "checkout"'),
+      },
+      async ({ project, teamId, name }) => {
+        try {
+          Logger.log(`Fetching files of project ${project}`);
+          const result = await this.figmaService.getProjectFiles(project, { teamId, name });
+          Logger.log(`Found ${result.files.length} files in ${result.project.name}`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching files of project ${project}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching project files: ${error}` }],
+          };
+        }
+      },
+    );
+
+    // Tool to list recently modified files
+    this.server.tool(
+      "list_figma_recent_files",
+      "List the most recently modified files across all projects of a Figma team, with the project each one is in",
+      {
+        teamId: z
+          .string()
+          .optional()
+          .describe("The ID of the team, defaults to the configured team"),
+        name: z
+          .string()
+          .optional()
+          .describe('Only list files whose name contains this text, e.g. "checkout"'),
+        limit: z.number().optional().describe("How many files to return, defaults to 20"),
+      },
+      async ({ teamId, name, limit }) => {
+        try {
+          Logger.log(`Fetching recent files of team ${teamId ?? "(default)"}`);
+          const recent = await this.figmaService.getRecentFiles({ teamId, name }, limit);
+          Logger.log(`Found ${recent.files.length} recent files`);
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(recent, null, 2) }],
+          };
+        } catch (error) {
+          Logger.error(`Error fetching recent files of team ${teamId ?? "(default)"}:`, error);
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching recent files: ${error}` }],
+          };
+        }
+      },
+    );
+
     // Tool to get Jira issue information
     if (this.jiraService) {
       this.server.tool(
@@ -190,9 +936,13 @@ export class FigmaMcpServer {
     // Tool to download images
     this.server.tool(
       "download_figma_images",
-      "Download SVG and PNG images used in a Figma file based on the IDs of image or icon nodes",
+      "Download images used in a Figma file based on the IDs of image or icon nodes, rendered as PNG, JPG, SVG or PDF at one or more scales. The assets section of get_figma_data lists every image fill and SVG node with a suggested file name",
       {
-        fileKey: z.string().describe("The key of the Figma file containing the node"),
+        url: figmaUrl,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file containing the node, not needed when url is given"),
         nodes: z
           .object({
             nodeId: z
@@ -204,18 +954,67 @@ export class FigmaMcpServer {
               .describe(
                 "If a node has an imageRef fill, you must include this variable. Leave blank when downloading Vector SVG images.",
               ),
-            fileName: z.string().describe("The local name for saving the fetched file"),
+            fileName: z
+              .string()
+              .describe(
+                "The local name for saving the fetched file. For imageRef fills, leave off the extension to save with the uploaded image's type",
+              ),
+            format: z
+              .enum(["png", "jpg", "svg", "pdf"])
+              .optional()
+              .describe(
+                "Format to render the node in, defaults to the extension of fileName, or png. Ignored for imageRef fills, which are saved as uploaded",
+              ),
+            scales: z
+              .number()
+              .min(0.01)
+              .max(4)
+              .array()
+              .optional()
+              .describe(
+                `Scales to render the node at, one file per scale, e.g. [1, 2, 3] for @1x/@2x/@3x sets. Defaults to [${DEFAULT_IMAGE_SCALE}]`,
+              ),
           })
           .array()
           .describe("The nodes to fetch as images"),
+        fileNameTemplate: z
+          .string()
+          .optional()
+          .describe(
+            'Template for the saved file names, with the placeholders {name} (fileName without its extension), {nodeId}, {scale} and {format}, e.g. "{scale}x/{name}.{format}". Defaults to "{name}@{scale}x.{format}" for nodes with several scales, and fileName as given otherwise',
+          ),
+        svgIncludeId: z
+          .boolean()
+          .optional()
+          .describe("Add the layer names as id attributes of SVG elements"),
+        svgOutlineText: z
+          .boolean()
+          .optional()
+          .describe(
+            "Render SVG text as paths, Figma's default. Pass false to keep <text> elements",
+          ),
+        svgSimplifyStroke: z
+          .boolean()
+          .optional()
+          .describe(
+            "Simplify SVG inside and outside strokes, Figma's default. Pass false to keep strokes as drawn",
+          ),
+        useAbsoluteBounds: z
+          .boolean()
+          .optional()
+          .describe(
+            "Render the node's full bounds, including parts clipped by its parents, without effects such as shadows",
+          ),
         localPath: z
           .string()
           .describe(
             "The absolute path to the directory where images are stored in the project. If the directory does not exist, it will be created. The format of this path should respect the directory format of the operating system you are running on. Don't use any special character escaping in the path name either.",
           ),
       },
-      async ({ fileKey, nodes, localPath }) => {
+      async ({ url, fileKey, nodes, localPath, fileNameTemplate, ...exportOptions }) => {
         try {
+          ({ fileKey } = resolveFigmaTarget(url, fileKey));
+          nodes = nodes.map((node) => ({ ...node, nodeId: normalizeNodeId(node.nodeId) }));
           const imageFills = nodes.filter(({ imageRef }) => !!imageRef) as {
             nodeId: string;
             imageRef: string;
@@ -224,13 +1023,26 @@ export class FigmaMcpServer {
           const fillDownloads = this.figmaService.getImageFills(fileKey, imageFills, localPath);
           const renderRequests = nodes
             .filter(({ imageRef }) => !imageRef)
-            .map(({ nodeId, fileName }) => ({
-              nodeId,
-              fileName,
-              fileType: fileName.endsWith(".svg") ? ("svg" as const) : ("png" as const),
-            }));
+            .flatMap(({ nodeId, fileName, format, scales = [DEFAULT_IMAGE_SCALE] }) => {
+              const fileType = format ?? imageFormatOf(fileName);
+              const template =
+                fileNameTemplate ?? (scales.length > 1 ? "{name}@{scale}x.{format}" : undefined);
+              return [...new Set(scales)].map((scale) => ({
+                nodeId,
+                fileName: template
+                  ? formatImageFileName(template, { fileName, nodeId, scale, format: fileType })
+                  : fileName,
+                fileType,
+                scale,
+              }));
+            });
 
-          const renderDownloads = this.figmaService.getImages(fileKey, renderRequests, localPath);
+          const renderDownloads = this.figmaService.getImages(
+            fileKey,
+            renderRequests,
+            localPath,
+            exportOptions,
+          );
 
           const downloads = await Promise.all([fillDownloads, renderDownloads]).then(([f, r]) => [
             ...f,
@@ -250,7 +1062,7 @@ export class FigmaMcpServer {
             ],
           };
         } catch (error) {
-          Logger.error(`Error downloading images from file ${fileKey}:`, error);
+          Logger.error(`Error downloading images from file ${fileKey ?? url}:`, error);
           return {
             isError: true,
             content: [{ type: "text", text: `Error downloading images: ${error}` }],
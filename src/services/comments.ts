@@ -0,0 +1,102 @@
+import type { Comment } from "@figma/rest-api-spec";
+
+export interface SimplifiedComment {
+  id: string;
+  // Figma handle of the author
+  author: string;
+  // Markdown
+  message: string;
+  createdAt: string;
+  // Emoji reactions with how many people added each, e.g. { ":+1:": 2 }
+  reactions?: Record<string, number>;
+}
+
+// Where a thread's pin sits in the file
+export interface CommentAnchor {
+  // Node the pin is attached to; position is relative to its top-left corner when set, and to
+  // the canvas otherwise
+  nodeId?: string;
+  x: number;
+  y: number;
+  // Size of the highlighted area, for comments drawn as a region
+  width?: number;
+  height?: number;
+}
+
+export interface CommentThread extends SimplifiedComment {
+  // Number shown next to the pin in Figma, e.g. "12"
+  number?: string;
+  resolved: boolean;
+  resolvedAt?: string;
+  // Undefined for comments on the file as a whole
+  anchor?: CommentAnchor;
+  // Oldest first
+  replies: SimplifiedComment[];
+}
+
+export interface CommentFilters {
+  // Only threads pinned to this node
+  nodeId?: string;
+  // "open" for unresolved threads, "resolved" for resolved ones, omit for both
+  status?: "open" | "resolved";
+}
+
+function simplifyComment(comment: Comment): SimplifiedComment {
+  const reactions: Record<string, number> = {};
+  comment.reactions?.forEach(({ emoji }) => (reactions[emoji] = (reactions[emoji] ?? 0) + 1));
+  return {
+    id: comment.id,
+    author: comment.user.handle,
+    message: comment.message,
+    createdAt: comment.created_at,
+    reactions: Object.keys(reactions).length ? reactions : undefined,
+  };
+}
+
+function buildAnchor(clientMeta: Comment["client_meta"]): CommentAnchor | undefined {
+  if (!clientMeta) return undefined;
+  const region =
+    "region_width" in clientMeta
+      ? { width: clientMeta.region_width, height: clientMeta.region_height }
+      : {};
+  if ("node_id" in clientMeta) {
+    return { nodeId: clientMeta.node_id, ...clientMeta.node_offset, ...region };
+  }
+  return { x: clientMeta.x, y: clientMeta.y, ...region };
+}
+
+/**
+ * Group a file's comments into threads, keeping the order of the top-level comments
+ * @param comments - The comments of a file, top-level comments and replies mixed
+ * @param filters - Restrict the threads to a node or a resolved state
+ */
+export function buildCommentThreads(
+  comments: Comment[],
+  filters: CommentFilters = {},
+): CommentThread[] {
+  const replies = new Map<string, Comment[]>();
+  for (const comment of comments) {
+    if (!comment.parent_id) continue;
+    replies.set(comment.parent_id, [...(replies.get(comment.parent_id) ?? []), comment]);
+  }
+
+  return comments
+    .filter((comment) => !comment.parent_id)
+    .map(
+      (comment): CommentThread => ({
+        ...simplifyComment(comment),
+        number: comment.order_id ?? undefined,
+        resolved: !!comment.resolved_at,
+        resolvedAt: comment.resolved_at ?? undefined,
+        anchor: buildAnchor(comment.client_meta),
+        replies: (replies.get(comment.id) ?? [])
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(simplifyComment),
+      }),
+    )
+    .filter(
+      (thread) =>
+        (!filters.nodeId || thread.anchor?.nodeId === filters.nodeId) &&
+        (!filters.status || thread.resolved === (filters.status === "resolved")),
+    );
+}
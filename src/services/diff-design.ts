@@ -0,0 +1,237 @@
+import type { SimplifiedDesign, SimplifiedNode } from "~/services/simplify-node-response.js";
+
+export interface NodeRef {
+  id: string;
+  name: string;
+  type: string;
+  // Names of the node's ancestors and the node itself, e.g. "Checkout / Summary / Total"
+  path: string;
+}
+
+export interface MovedNode extends NodeRef {
+  // Set when the node moved to another parent
+  fromParentId?: string;
+  toParentId?: string;
+  // Set when the node changed places with its siblings
+  reordered?: boolean;
+  // Set when a positioned node moved within its parent
+  from?: { x: number; y: number };
+  to?: { x: number; y: number };
+}
+
+export interface FieldChange {
+  // Node field, with the key inside a style for layout and typography, e.g. "layout.gap"
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ChangedNode extends NodeRef {
+  changes: FieldChange[];
+}
+
+export interface DesignDiff {
+  before: { name: string; lastModified: string };
+  after: { name: string; lastModified: string };
+  summary: { added: number; removed: number; moved: number; changed: number };
+  // Only the topmost node of an added or removed subtree is listed
+  added: NodeRef[];
+  removed: NodeRef[];
+  moved: MovedNode[];
+  changed: ChangedNode[];
+}
+
+interface IndexedNode {
+  node: SimplifiedNode;
+  parentId?: string;
+  path: string[];
+}
+
+// Fields that hold a reference into globalVars.styles, compared by the value they point to
+const STYLE_FIELDS = new Set(["fills", "strokes", "effects", "layout", "layoutGrids", "textStyle"]);
+
+// Fields whose keys are diffed one by one, so e.g. a gap change doesn't report the whole layout
+const NESTED_FIELDS = new Set(["layout", "textStyle"]);
+
+// Not changes of the node itself, or reported separately
+const IGNORED_FIELDS = new Set(["id", "children", "parentId"]);
+
+function indexNodes(
+  nodes: SimplifiedNode[],
+  parentId?: string,
+  path: string[] = [],
+  index = new Map<string, IndexedNode>(),
+): Map<string, IndexedNode> {
+  for (const node of nodes) {
+    const nodePath = [...path, node.name];
+    index.set(node.id, { node, parentId, path: nodePath });
+    if (node.children) indexNodes(node.children, node.id, nodePath, index);
+  }
+  return index;
+}
+
+function toRef({ node, path }: IndexedNode): NodeRef {
+  return { id: node.id, name: node.name, type: node.type, path: path.join(" / ") };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Replace style references with the values they point to, so the two designs compare by value
+function resolveFields(design: SimplifiedDesign, node: SimplifiedNode): Record<string, unknown> {
+  const { styles } = design.globalVars;
+  const resolve = (key: string, value: unknown) =>
+    STYLE_FIELDS.has(key) && typeof value === "string" ? (styles[value] ?? value) : value;
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (key === "textRuns" && Array.isArray(value)) {
+      fields[key] = value.map((run) =>
+        Object.fromEntries(Object.entries(run).map(([k, v]) => [k, resolve(k, v)])),
+      );
+    } else if (key === "layout" && isPlainObject(styles[value as string])) {
+      // Position is reported as a move rather than a layout change
+      const { locationRelativeToParent: _, ...layout } = styles[value as string] as Record<
+        string,
+        unknown
+      >;
+      fields[key] = layout;
+    } else {
+      fields[key] = resolve(key, value);
+    }
+  }
+  return fields;
+}
+
+function diffValues(field: string, before: unknown, after: unknown, changes: FieldChange[]) {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  if (NESTED_FIELDS.has(field.split(".")[0]) && isPlainObject(before) && isPlainObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffValues(`${field}.${key}`, before[key], after[key], changes);
+    }
+    return;
+  }
+  changes.push({ field, before, after });
+}
+
+function getPosition(design: SimplifiedDesign, node: SimplifiedNode) {
+  const layout: unknown = node.layout ? design.globalVars.styles[node.layout] : undefined;
+  return isPlainObject(layout)
+    ? (layout.locationRelativeToParent as { x: number; y: number } | undefined)
+    : undefined;
+}
+
+/**
+ * Find the ids of siblings that changed places, as the ones outside the longest run of siblings
+ * that kept their relative order. Moving one node then reports that node, not every node it
+ * shifted.
+ */
+function findReordered(before: string[], after: string[]): Set<string> {
+  const common = new Set(before.filter((id) => after.includes(id)));
+  const order = new Map(before.filter((id) => common.has(id)).map((id, i) => [id, i]));
+  const sequence = after.filter((id) => common.has(id));
+
+  // Longest increasing subsequence of the old positions, in the new order
+  const tails: number[] = [];
+  const previous: number[] = [];
+  const tailIndexes: number[] = [];
+  sequence.forEach((id, i) => {
+    const value = order.get(id)!;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tails[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    tails[low] = value;
+    tailIndexes[low] = i;
+    previous[i] = low > 0 ? tailIndexes[low - 1] : -1;
+  });
+
+  const kept = new Set<string>();
+  for (let i = tailIndexes[tails.length - 1] ?? -1; i >= 0; i = previous[i]) {
+    kept.add(sequence[i]);
+  }
+  return new Set(sequence.filter((id) => !kept.has(id)));
+}
+
+/**
+ * Compare two simplified versions of the same file or node. Nodes are matched by id, and their
+ * styles are compared by value, so the two designs can come from separate parses.
+ * @param before - The older version
+ * @param after - The newer version
+ */
+export function diffDesigns(before: SimplifiedDesign, after: SimplifiedDesign): DesignDiff {
+  const oldNodes = indexNodes(before.nodes);
+  const newNodes = indexNodes(after.nodes);
+
+  const added = [...newNodes.values()]
+    .filter(
+      ({ node, parentId }) => !oldNodes.has(node.id) && !(parentId && !oldNodes.has(parentId)),
+    )
+    .map(toRef);
+  const removed = [...oldNodes.values()]
+    .filter(
+      ({ node, parentId }) => !newNodes.has(node.id) && !(parentId && !newNodes.has(parentId)),
+    )
+    .map(toRef);
+
+  // Siblings that changed order, per parent present in both versions
+  const reordered = new Set<string>();
+  const childIds = (node?: SimplifiedNode) => node?.children?.map((child) => child.id) ?? [];
+  for (const [id, { node }] of newNodes) {
+    const old = oldNodes.get(id);
+    if (old) findReordered(childIds(old.node), childIds(node)).forEach((id) => reordered.add(id));
+  }
+  findReordered(
+    before.nodes.map((node) => node.id),
+    after.nodes.map((node) => node.id),
+  ).forEach((id) => reordered.add(id));
+
+  const moved: MovedNode[] = [];
+  const changed: ChangedNode[] = [];
+  for (const [id, current] of newNodes) {
+    const previous = oldNodes.get(id);
+    if (!previous) continue;
+
+    const move: MovedNode = toRef(current);
+    if (previous.parentId !== current.parentId) {
+      move.fromParentId = previous.parentId;
+      move.toParentId = current.parentId;
+    } else if (reordered.has(id)) {
+      move.reordered = true;
+    }
+    const from = getPosition(before, previous.node);
+    const to = getPosition(after, current.node);
+    if (from && to && (from.x !== to.x || from.y !== to.y)) {
+      move.from = from;
+      move.to = to;
+    }
+    if (Object.keys(move).length > Object.keys(toRef(current)).length) moved.push(move);
+
+    const oldFields = resolveFields(before, previous.node);
+    const newFields = resolveFields(after, current.node);
+    const changes: FieldChange[] = [];
+    for (const field of new Set([...Object.keys(oldFields), ...Object.keys(newFields)])) {
+      diffValues(field, oldFields[field], newFields[field], changes);
+    }
+    if (changes.length) changed.push({ ...toRef(current), changes });
+  }
+
+  return {
+    before: { name: before.name, lastModified: before.lastModified },
+    after: { name: after.name, lastModified: after.lastModified },
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      moved: moved.length,
+      changed: changed.length,
+    },
+    added,
+    removed,
+    moved,
+    changed,
+  };
+}
@@ -0,0 +1,634 @@
+import fs from "fs";
+import path from "path";
+import type {
+  SimplifiedDesign,
+  SimplifiedFill,
+  SimplifiedNode,
+  TextStyle,
+} from "~/services/simplify-node-response.js";
+import type { SimplifiedEffects } from "~/transformers/effects.js";
+import type { SimplifiedLayout } from "~/transformers/layout.js";
+import type { SimplifiedStroke } from "~/transformers/style.js";
+import type { SimplifiedVariable, VariableValue } from "~/transformers/variables.js";
+
+export type TokenFormat = "dtcg" | "css" | "scss" | "tailwind";
+
+export type TokenCategory =
+  | "color"
+  | "gradient"
+  | "typography"
+  | "spacing"
+  | "radius"
+  | "shadow"
+  | "blur"
+  | "other";
+
+// Token types from the W3C Design Tokens Community Group format
+type TokenType =
+  | "color"
+  | "dimension"
+  | "number"
+  | "fontFamily"
+  | "fontWeight"
+  | "typography"
+  | "shadow"
+  | "gradient";
+
+interface ShadowValue {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+interface TypographyValue {
+  fontFamily?: string;
+  fontSize?: string;
+  fontWeight?: number;
+  lineHeight?: number;
+  letterSpacing?: string;
+}
+
+type TokenValue =
+  | string
+  | number
+  | ShadowValue[]
+  | TypographyValue
+  | { color: string; position: number }[];
+
+export interface DesignToken {
+  // Kebab-cased path segments, e.g. ["color", "surface", "primary"]
+  path: string[];
+  category: TokenCategory;
+  type: TokenType;
+  // Value in Design Tokens format; references to other tokens are written as "{color.blue.500}"
+  value: TokenValue;
+  // Value as a CSS string, with references written as var(--color-blue-500)
+  css: string;
+  // Values for every additional mode of a multi-mode variable, as CSS strings
+  modes?: Record<string, string>;
+  description?: string;
+}
+
+export interface WrittenTokens {
+  filePath: string;
+  tokens: DesignToken[];
+}
+
+const defaultFileNames: Record<TokenFormat, string> = {
+  dtcg: "tokens.json",
+  css: "tokens.css",
+  scss: "_tokens.scss",
+  tailwind: "tailwind.tokens.js",
+};
+
+// ---------------------- COLLECTION ----------------------
+
+/**
+ * Collect design tokens from a simplified design. Variables and named styles keep their Figma names;
+ * values that were only ever used ad hoc are named after the value itself, e.g. spacing-16 or
+ * color-1e90ff, so re-running the export on an updated file gives a stable diff.
+ */
+export function collectDesignTokens(design: SimplifiedDesign): DesignToken[] {
+  const collector = new TokenCollector();
+  const { styles, namedStyles = {}, variables = {} } = design.globalVars;
+
+  Object.entries(variables).forEach(([tokenName, variable]) =>
+    collector.addVariable(tokenName, variable),
+  );
+
+  for (const [name, style] of Object.entries(namedStyles)) {
+    const value = styles[name];
+    if (value === undefined) continue;
+    const namePath = name.split("/");
+    const description = style.description;
+    if (style.type === "FILL") {
+      collector.addFills(value as SimplifiedFill[], namePath, description);
+    } else if (style.type === "TEXT") {
+      collector.addTypography(value as TextStyle, namePath, description);
+    } else if (style.type === "EFFECT") {
+      collector.addEffects(value as SimplifiedEffects, namePath, description);
+    }
+  }
+
+  // Everything else was stored under a generated id, prefixed with the kind of value it holds
+  const namedStyleNames = Object.keys(namedStyles);
+  for (const [id, value] of Object.entries(styles)) {
+    if (namedStyleNames.some((name) => id === name || id.startsWith(`${name} (`))) continue;
+    const kind = id.slice(0, id.indexOf("_"));
+    if (kind === "fill") {
+      (value as SimplifiedFill[]).forEach((fill) => collector.addFills([fill]));
+    } else if (kind === "stroke") {
+      (value as SimplifiedStroke).colors.forEach((fill) => collector.addFills([fill]));
+    } else if (kind === "style") {
+      collector.addTypography(value as TextStyle);
+    } else if (kind === "effect") {
+      collector.addEffects(value as SimplifiedEffects);
+    } else if (kind === "layout") {
+      collector.addSpacing(value as SimplifiedLayout);
+    }
+  }
+
+  const visit = (node: SimplifiedNode) => {
+    if (node.borderRadius) collector.addRadius(node.borderRadius);
+    node.children?.forEach(visit);
+  };
+  design.nodes.forEach(visit);
+
+  return collector.tokens;
+}
+
+function toSlug(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^a-zA-Z0-9.]+/g, "-")
+    .replace(/\./g, "_")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
+
+function toPath(segments: string[]): string[] {
+  return segments.map(toSlug).filter(Boolean);
+}
+
+const cssVarName = (tokenPath: string[]) => `--${tokenPath.join("-")}`;
+
+function fillToColor(fill: SimplifiedFill): string | undefined {
+  return typeof fill === "string" ? fill : (fill.hex ?? fill.rgba);
+}
+
+// 8-digit hex for translucent colors, e.g. { hex: "#000000", opacity: 0.5 } -> "#00000080"
+function hexWithAlpha({ hex, opacity }: { hex: string; opacity: number }): string {
+  if (opacity >= 1) return hex;
+  return `${hex}${Math.round(opacity * 255)
+    .toString(16)
+    .padStart(2, "0")
+    .toUpperCase()}`;
+}
+
+// Names ad hoc colors after their value, e.g. "#1E90FF" -> "1e90ff", "rgba(0, 0, 0, 0.2)" -> "000000-20"
+function colorName(color: string): string {
+  if (color.startsWith("#")) return color.slice(1).toLowerCase();
+  const [r, g, b, a] = color.match(/[\d.]+/g)?.map(Number) ?? [];
+  const hex = [r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("");
+  return `${hex}-${Math.round(a * 100)}`;
+}
+
+function splitShorthand(value: string): string[] {
+  return value.split(/\s+/).filter((part) => /^\d+(\.\d+)?px$/.test(part) && part !== "0px");
+}
+
+// Split a comma separated CSS list, ignoring commas inside rgba(...)
+function splitCssList(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "(") depth++;
+    if (value[i] === ")") depth--;
+    if (value[i] === "," && depth === 0) {
+      parts.push(value.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+function parseBoxShadow(boxShadow: string): ShadowValue[] {
+  return splitCssList(boxShadow).map((shadow) => {
+    const inset = shadow.startsWith("inset ");
+    const [offsetX, offsetY, blur, spread, ...color] = shadow
+      .replace(/^inset /, "")
+      .split(/\s+(?![^(]*\))/);
+    return { color: color.join(" "), offsetX, offsetY, blur, spread, ...(inset && { inset }) };
+  });
+}
+
+class TokenCollector {
+  readonly tokens: DesignToken[] = [];
+  private readonly paths = new Set<string>();
+  private readonly cssValues = new Map<string, DesignToken>();
+
+  /**
+   * Add a token unless one with the same path exists, or, for unnamed values, unless a named
+   * token already carries the same value
+   */
+  private add(token: DesignToken, { named }: { named: boolean }) {
+    const pathKey = token.path.join("/");
+    const valueKey = `${token.category}:${token.css}`;
+    if (this.paths.has(pathKey) || (!named && this.cssValues.has(valueKey))) return;
+    this.paths.add(pathKey);
+    if (!this.cssValues.has(valueKey)) this.cssValues.set(valueKey, token);
+    this.tokens.push(token);
+  }
+
+  addVariable(tokenName: string, variable: SimplifiedVariable) {
+    const modes = Object.entries(variable.valuesByMode);
+    const defaultMode = variable.defaultMode ?? modes[0]?.[0];
+    if (defaultMode === undefined) return;
+    const defaultValue = variable.valuesByMode[defaultMode];
+    const otherValues = modes.filter(([mode]) => mode !== defaultMode);
+
+    const tokenPath = toPath(tokenName.split("/"));
+    const name = tokenName.toLowerCase();
+    let category: TokenCategory = "other";
+    let type: TokenType;
+    if (variable.type === "COLOR") {
+      category = "color";
+      type = "color";
+    } else if (variable.type === "FLOAT") {
+      if (/radius|corner|rounded/.test(name)) category = "radius";
+      else if (/spacing|space|gap|padding|margin|size/.test(name)) category = "spacing";
+      else if (/blur/.test(name)) category = "blur";
+      type = /weight/.test(name) ? "fontWeight" : category === "other" ? "number" : "dimension";
+    } else if (variable.type === "STRING" && /font.?family|typeface/.test(name)) {
+      category = "typography";
+      type = "fontFamily";
+    } else {
+      // Booleans and arbitrary strings drive prototypes, not styles
+      return;
+    }
+
+    const toValue = (value: VariableValue): string | number => {
+      if (typeof value === "string" && /^\{.+\}$/.test(value)) {
+        return `{${toPath(value.slice(1, -1).split("/")).join(".")}}`;
+      }
+      return type === "dimension" ? `${value}px` : (value as string | number);
+    };
+    const toCss = (value: VariableValue): string => {
+      const tokenValue = toValue(value);
+      if (typeof tokenValue === "string" && tokenValue.startsWith("{")) {
+        return `var(${cssVarName(tokenValue.slice(1, -1).split("."))})`;
+      }
+      return type === "fontFamily" ? `"${tokenValue}"` : `${tokenValue}`;
+    };
+
+    this.add(
+      {
+        path: tokenPath,
+        category,
+        type,
+        value: toValue(defaultValue),
+        css: toCss(defaultValue),
+        modes: otherValues.length
+          ? Object.fromEntries(otherValues.map(([mode, value]) => [toSlug(mode), toCss(value)]))
+          : undefined,
+        description: variable.description,
+      },
+      { named: true },
+    );
+  }
+
+  addFills(fills: SimplifiedFill[], namePath?: string[], description?: string) {
+    // Layered fills don't map onto a single token
+    if (fills.length !== 1) return;
+    const [fill] = fills;
+    const color = fillToColor(fill);
+
+    if (color) {
+      const variable = typeof fill !== "string" ? fill.variable : undefined;
+      // The bound variable is exported as a token of its own
+      if (variable && !namePath) return;
+      const reference = variable ? toPath(variable.split("/")) : undefined;
+      this.add(
+        {
+          path: ["color", ...(namePath ? toPath(namePath) : [colorName(color)])],
+          category: "color",
+          type: "color",
+          value: reference ? `{${reference.join(".")}}` : color,
+          css: reference ? `var(${cssVarName(reference)})` : color,
+          description,
+        },
+        { named: !!namePath },
+      );
+      return;
+    }
+
+    if (typeof fill !== "string" && fill.gradient && namePath) {
+      this.add(
+        {
+          path: ["gradient", ...toPath(namePath)],
+          category: "gradient",
+          type: "gradient",
+          // Stops are only present when the design was parsed with rawGradients
+          value: fill.gradientStops
+            ? fill.gradientStops.map(({ color, position }) => ({
+                color: typeof color === "string" ? color : hexWithAlpha(color),
+                position,
+              }))
+            : fill.gradient,
+          css: fill.gradient,
+          description,
+        },
+        { named: true },
+      );
+    }
+  }
+
+  addTypography(style: TextStyle, namePath?: string[], description?: string) {
+    if (!style.fontFamily || !style.fontSize) return;
+    const value: TypographyValue = {
+      fontFamily: style.fontFamily,
+      fontSize: `${style.fontSize}px`,
+      fontWeight: style.fontWeight,
+      lineHeight: style.lineHeight
+        ? Math.round(parseFloat(style.lineHeight) * 1000) / 1000
+        : undefined,
+      letterSpacing: style.letterSpacing?.endsWith("%")
+        ? `${Math.round(parseFloat(style.letterSpacing) * 10) / 1000}em`
+        : undefined,
+    };
+    const css = [
+      style.italic ? "italic" : "",
+      value.fontWeight ?? "",
+      `${value.fontSize}${value.lineHeight ? `/${value.lineHeight}` : ""}`,
+      `"${value.fontFamily}"`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const fallbackName = [style.fontFamily, style.fontSize, style.fontWeight]
+      .filter(Boolean)
+      .join("-");
+
+    this.add(
+      {
+        path: ["typography", ...toPath(namePath ?? [fallbackName])],
+        category: "typography",
+        type: "typography",
+        value,
+        css,
+        description,
+      },
+      { named: !!namePath },
+    );
+  }
+
+  addEffects(effects: SimplifiedEffects, namePath?: string[], description?: string) {
+    if (effects.boxShadow) {
+      const shadowIndex = this.tokens.filter((token) => token.category === "shadow").length + 1;
+      this.add(
+        {
+          path: ["shadow", ...(namePath ? toPath(namePath) : [`${shadowIndex}`])],
+          category: "shadow",
+          type: "shadow",
+          value: parseBoxShadow(effects.boxShadow),
+          css: effects.boxShadow,
+          description,
+        },
+        { named: !!namePath },
+      );
+    }
+
+    for (const filter of [effects.filter, effects.backdropFilter]) {
+      const radius = filter?.match(/blur\(([\d.]+px)\)/)?.[1];
+      if (!radius) continue;
+      this.add(
+        {
+          path: ["blur", ...(namePath ? toPath(namePath) : [radius.replace("px", "")])],
+          category: "blur",
+          type: "dimension",
+          value: radius,
+          css: radius,
+          description,
+        },
+        { named: !!namePath },
+      );
+    }
+  }
+
+  addSpacing(layout: SimplifiedLayout) {
+    const values = [layout.gap, layout.padding].flatMap((value) =>
+      value ? splitShorthand(value) : [],
+    );
+    values.forEach((value) => this.addDimension("spacing", value));
+  }
+
+  addRadius(borderRadius: string) {
+    splitShorthand(borderRadius).forEach((value) => this.addDimension("radius", value));
+  }
+
+  private addDimension(category: "spacing" | "radius", value: string) {
+    this.add(
+      {
+        path: [category, toSlug(value.replace("px", ""))],
+        category,
+        type: "dimension",
+        value,
+        css: value,
+      },
+      { named: false },
+    );
+  }
+}
+
+// ---------------------- FORMATTING ----------------------
+
+type DtcgGroup = { [key: string]: DtcgGroup | DtcgToken };
+type DtcgToken = {
+  $type: TokenType;
+  $value: TokenValue;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+};
+
+// Key of a token that shares its path with a group, e.g. color/primary next to color/primary/hover
+const DTCG_ROOT_KEY = "$root";
+
+const isDtcgToken = (entry: DtcgGroup | DtcgToken): entry is DtcgToken => "$value" in entry;
+
+function formatDtcg(tokens: DesignToken[]): string {
+  const root: DtcgGroup = {};
+  for (const token of tokens) {
+    let group = root;
+    for (const segment of token.path.slice(0, -1)) {
+      const entry = group[segment];
+      // A token can't hold child tokens, so it moves into a group with them
+      if (entry && isDtcgToken(entry)) group[segment] = { [DTCG_ROOT_KEY]: entry };
+      group = (group[segment] ??= {}) as DtcgGroup;
+    }
+    const dtcgToken: DtcgToken = {
+      $type: token.type,
+      $value: token.value,
+      ...(token.description && { $description: token.description }),
+      ...(token.modes && { $extensions: { "com.figma": { modes: token.modes } } }),
+    };
+    const name = token.path[token.path.length - 1];
+    const entry = group[name];
+    if (entry && !isDtcgToken(entry)) entry[DTCG_ROOT_KEY] = dtcgToken;
+    else group[name] = dtcgToken;
+  }
+  return `${JSON.stringify(root, null, 2)}\n`;
+}
+
+// Composite typography tokens become one custom property per font property
+function cssEntries(token: DesignToken): [name: string, value: string][] {
+  const name = cssVarName(token.path);
+  if (token.type !== "typography") return [[name, token.css]];
+  const value = token.value as TypographyValue;
+  return [
+    [`${name}-font-family`, value.fontFamily && `"${value.fontFamily}"`],
+    [`${name}-font-size`, value.fontSize],
+    [`${name}-font-weight`, value.fontWeight?.toString()],
+    [`${name}-line-height`, value.lineHeight?.toString()],
+    [`${name}-letter-spacing`, value.letterSpacing],
+  ].filter((entry): entry is [string, string] => !!entry[1]);
+}
+
+/**
+ * Order tokens so each one comes after the tokens it references, as Sass requires variables to be
+ * defined before they're used. Reference cycles keep their original order.
+ */
+function sortByReference(tokens: DesignToken[]): DesignToken[] {
+  const byName = new Map(tokens.map((token) => [cssVarName(token.path), token]));
+  const sorted: DesignToken[] = [];
+  const visited = new Set<DesignToken>();
+  const visit = (token: DesignToken) => {
+    if (visited.has(token)) return;
+    visited.add(token);
+    const values = [
+      ...cssEntries(token).map(([, value]) => value),
+      ...Object.values(token.modes ?? {}),
+    ];
+    for (const value of values) {
+      for (const [, name] of value.matchAll(/var\((--[a-z0-9_-]+)\)/g)) {
+        const target = byName.get(name);
+        if (target) visit(target);
+      }
+    }
+    sorted.push(token);
+  };
+  tokens.forEach(visit);
+  return sorted;
+}
+
+function formatCss(tokens: DesignToken[]): string {
+  tokens = sortByReference(tokens);
+  const root = tokens.flatMap(cssEntries).map(([name, value]) => `  ${name}: ${value};`);
+  const blocks = [`:root {\n${root.join("\n")}\n}`];
+
+  // Additional variable modes (e.g. dark) override the defaults under a data attribute
+  const modes = [...new Set(tokens.flatMap((token) => Object.keys(token.modes ?? {})))];
+  for (const mode of modes) {
+    const overrides = tokens
+      .filter((token) => token.modes?.[mode])
+      .map((token) => `  ${cssVarName(token.path)}: ${token.modes![mode]};`);
+    blocks.push(`[data-theme="${mode}"] {\n${overrides.join("\n")}\n}`);
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+function formatScss(tokens: DesignToken[]): string {
+  const lines = sortByReference(tokens)
+    .flatMap(cssEntries)
+    .map(([name, value]) => {
+      // SCSS variables reference each other directly rather than through custom properties
+      const scssValue = value.replace(/var\(--([a-z0-9_-]+)\)/g, "$$$1");
+      return `$${name.slice(2)}: ${scssValue};`;
+    });
+  return `${lines.join("\n")}\n`;
+}
+
+// Tailwind has no notion of references, so they're resolved to the final value
+function resolveCss(token: DesignToken, byName: Map<string, DesignToken>, depth = 0): string {
+  const reference = token.css.match(/^var\((--[a-z0-9_-]+)\)$/)?.[1];
+  const target = reference ? byName.get(reference) : undefined;
+  return target && depth < 10 ? resolveCss(target, byName, depth + 1) : token.css;
+}
+
+function formatTailwind(tokens: DesignToken[]): string {
+  const byName = new Map(tokens.map((token) => [cssVarName(token.path), token]));
+  const theme: Record<string, Record<string, unknown>> = {};
+  const set = (key: string, name: string, value: unknown) => {
+    (theme[key] ??= {})[name] = value;
+  };
+
+  for (const token of tokens) {
+    // The category prefix is implied by the theme key
+    const name = (token.path[0] === token.category ? token.path.slice(1) : token.path).join("-");
+    const css = resolveCss(token, byName);
+    switch (token.category) {
+      case "color":
+        set("colors", name, css);
+        break;
+      case "gradient":
+        set("backgroundImage", name, css);
+        break;
+      case "spacing":
+        set("spacing", name, css);
+        break;
+      case "radius":
+        set("borderRadius", name, css);
+        break;
+      case "shadow":
+        set("boxShadow", name, css);
+        break;
+      case "blur":
+        set("blur", name, css);
+        set("backdropBlur", name, css);
+        break;
+      case "typography": {
+        if (token.type === "fontFamily") {
+          set("fontFamily", name, [token.value]);
+          break;
+        }
+        const value = token.value as TypographyValue;
+        if (value.fontFamily) set("fontFamily", name, [value.fontFamily]);
+        set("fontSize", name, [
+          value.fontSize,
+          {
+            ...(value.lineHeight && { lineHeight: `${value.lineHeight}` }),
+            ...(value.letterSpacing && { letterSpacing: value.letterSpacing }),
+            ...(value.fontWeight && { fontWeight: `${value.fontWeight}` }),
+          },
+        ]);
+        break;
+      }
+    }
+  }
+
+  return [
+    "// Spread into theme.extend in tailwind.config.js",
+    `export default ${JSON.stringify(theme, null, 2)};`,
+    "",
+  ].join("\n");
+}
+
+export function formatDesignTokens(tokens: DesignToken[], format: TokenFormat): string {
+  switch (format) {
+    case "dtcg":
+      return formatDtcg(tokens);
+    case "css":
+      return formatCss(tokens);
+    case "scss":
+      return formatScss(tokens);
+    case "tailwind":
+      return formatTailwind(tokens);
+  }
+}
+
+/**
+ * Collect the design's tokens and write them to disk in the requested format
+ * @param design - The simplified design to export tokens from
+ * @param format - Output format
+ * @param localPath - Directory to write to, created if it doesn't exist
+ * @param fileName - Optional file name, defaults to a conventional name for the format
+ * @returns The written file path and the exported tokens
+ */
+export function writeDesignTokens(
+  design: SimplifiedDesign,
+  format: TokenFormat,
+  localPath: string,
+  fileName = defaultFileNames[format],
+): WrittenTokens {
+  const tokens = collectDesignTokens(design);
+  if (!fs.existsSync(localPath)) {
+    fs.mkdirSync(localPath, { recursive: true });
+  }
+  const filePath = path.join(localPath, fileName);
+  fs.writeFileSync(filePath, formatDesignTokens(tokens, format));
+  return { filePath, tokens };
+}
@@ -1,12 +1,33 @@
 import fs from "fs";
-import { parseFigmaResponse, SimplifiedDesign } from "./simplify-node-response.js";
+import { parseFigmaResponse, ParseOptions, SimplifiedDesign } from "./simplify-node-response.js";
 import type {
+  Comment,
+  DevResource,
+  GetCommentsResponse,
+  GetDevResourcesResponse,
   GetImagesResponse,
   GetFileResponse,
   GetFileNodesResponse,
+  GetFileVersionsResponse,
   GetImageFillsResponse,
+  GetLocalVariablesResponse,
+  GetProjectFilesResponse,
+  GetTeamProjectsResponse,
+  PostCommentRequestBody,
+  PostDevResourcesRequestBody,
+  PostDevResourcesResponse,
 } from "@figma/rest-api-spec";
 import { downloadFigmaImage } from "~/utils/common.js";
+import type { VariableRegistry } from "~/transformers/variables.js";
+import {
+  buildFileOutline,
+  FileOutline,
+  findSectionIds,
+  OUTLINE_DEPTH,
+  SECTION_DEPTH,
+} from "~/services/file-outline.js";
+import { buildCommentThreads, CommentFilters, CommentThread } from "~/services/comments.js";
+import { collectMeasurements } from "~/transformers/dev-mode.js";
 import { Logger } from "~/server.js";
 
 export interface FigmaError {
@@ -14,6 +35,18 @@ export interface FigmaError {
   err: string;
 }
 
+// Requests reject with either a FigmaError or an Error
+function formatError(error: unknown): string {
+  const { status, err } = error as Partial<FigmaError>;
+  if (status) return `${status} ${err}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+export type ImageFormat = "png" | "jpg" | "svg" | "pdf";
+
+// Scale nodes are rendered at when a request doesn't set one
+export const DEFAULT_IMAGE_SCALE = 2;
+
 type FetchImageParams = {
   /**
    * The Node in Figma that will either be rendered or have its background image downloaded
@@ -26,36 +59,151 @@ type FetchImageParams = {
   /**
    * The file mimetype for the image
    */
-  fileType: "png" | "svg";
+  fileType: ImageFormat;
+  /**
+   * Multiplier of the node's size, between 0.01 and 4. Defaults to DEFAULT_IMAGE_SCALE
+   */
+  scale?: number;
+};
+
+export type ImageExportOptions = {
+  /**
+   * Add the layer names as id attributes of SVG elements
+   */
+  svgIncludeId?: boolean;
+  /**
+   * Render SVG text as paths rather than <text> elements, Figma's default
+   */
+  svgOutlineText?: boolean;
+  /**
+   * Replace SVG strokes with simplified inside and outside strokes, Figma's default
+   */
+  svgSimplifyStroke?: boolean;
+  /**
+   * Render the node's full bounds, including parts clipped by its parents, without effects
+   */
+  useAbsoluteBounds?: boolean;
 };
 
-type FetchImageFillParams = Omit<FetchImageParams, "fileType"> & {
+type FetchImageFillParams = Omit<FetchImageParams, "fileType" | "scale"> & {
   /**
    * Required to grab the background image when an image is used as a fill
    */
   imageRef: string;
 };
 
+export interface FileVersion {
+  id: string;
+  createdAt: string;
+  // Set for versions saved by hand, autosaves have neither label nor description
+  label?: string;
+  description?: string;
+  author: string;
+}
+
+// A link from a node to where it's implemented, e.g. a Storybook story or a GitHub file
+export interface SimplifiedDevResource {
+  id: string;
+  name: string;
+  url: string;
+  nodeId: string;
+}
+
+export interface FigmaProject {
+  id: string;
+  name: string;
+}
+
+export interface ProjectFile {
+  key: string;
+  name: string;
+  thumbnailUrl?: string;
+  lastModified: string;
+  // Name of the project holding the file, set when listing files across projects
+  project?: string;
+}
+
+export interface RecentFiles {
+  // Most recently modified first
+  files: ProjectFile[];
+  // Projects whose files couldn't be listed, so they're missing from the files
+  failedProjects?: (FigmaProject & { error: string })[];
+}
+
+// How many project file listings are requested at once
+const PROJECT_REQUEST_CONCURRENCY = 4;
+
+export interface FileListOptions {
+  // Team to look project names up in, defaults to the configured team
+  teamId?: string;
+  // Only files whose name contains this text, compared case-insensitively
+  name?: string;
+}
+
+export type FetchDesignOptions = ParseOptions & {
+  /**
+   * Also fetch the file's local variables, to name the variables bound to node properties. The
+   * endpoint is only available to members of Enterprise orgs, and has no file versions
+   */
+  includeVariables?: boolean;
+  /**
+   * Also fetch the Dev Mode measurements of the nodes' page, with a shallow request for the file.
+   * Whole-file fetches always include them
+   */
+  includeMeasurements?: boolean;
+};
+
+export type FigmaServiceOptions = {
+  /**
+   * Base URL of the REST API, e.g. a local stand-in for testing. Defaults to the Figma API.
+   */
+  baseUrl?: string;
+  /**
+   * Team whose projects are listed when a call doesn't name one
+   */
+  teamId?: string;
+};
+
+type RequestOptions = {
+  method?: "GET" | "POST" | "DELETE";
+  // Sent as JSON
+  body?: unknown;
+};
+
 export class FigmaService {
   private readonly apiKey: string;
-  private readonly baseUrl = "https://api.figma.com/v1";
+  private readonly baseUrl: string;
+  private readonly teamId?: string;
+  // Files whose local variables were refused, so the request isn't repeated for every fetch
+  private readonly variablesForbidden = new Set<string>();
 
-  constructor(apiKey: string) {
+  constructor(
+    apiKey: string,
+    { baseUrl = "https://api.figma.com/v1", teamId }: FigmaServiceOptions = {},
+  ) {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.teamId = teamId;
   }
 
-  private async request<T>(endpoint: string): Promise<T> {
+  private async request<T>(
+    endpoint: string,
+    { method = "GET", body }: RequestOptions = {},
+  ): Promise<T> {
     if (typeof fetch !== "function") {
       throw new Error(
         "The MCP server is being run in a Node.js environment where `fetch` is not available. You won't be able to access any data related to the Figma file.\n\nAs the coding AI assistant, PLEASE ABORT THE CURRENT REQUEST. No alternate approaches will work. Help the user fix this issue so you can proceed by letting them know that they need to run the MCP server with Node.js version 18 or higher.",
       );
     }
     try {
-      Logger.log(`Calling ${this.baseUrl}${endpoint}`);
+      Logger.log(`Calling ${method} ${this.baseUrl}${endpoint}`);
       const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method,
         headers: {
           "X-Figma-Token": this.apiKey,
+          ...(body !== undefined && { "Content-Type": "application/json" }),
         },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
       });
 
       if (!response.ok) {
@@ -65,7 +213,9 @@ export class FigmaService {
         } as FigmaError;
       }
 
-      return await response.json();
+      // Deletes answer with an empty body
+      const text = await response.text();
+      return text ? JSON.parse(text) : (undefined as T);
     } catch (error) {
       if ((error as FigmaError).status) {
         throw error;
@@ -102,45 +252,300 @@ export class FigmaService {
     fileKey: string,
     nodes: FetchImageParams[],
     localPath: string,
+    options: ImageExportOptions = {},
   ): Promise<string[]> {
-    const pngIds = nodes.filter(({ fileType }) => fileType === "png").map(({ nodeId }) => nodeId);
-    const pngFiles =
-      pngIds.length > 0
-        ? this.request<GetImagesResponse>(
-            `/images/${fileKey}?ids=${pngIds.join(",")}&scale=2&format=png`,
-          ).then(({ images = {} }) => images)
-        : ({} as GetImagesResponse["images"]);
-
-    const svgIds = nodes.filter(({ fileType }) => fileType === "svg").map(({ nodeId }) => nodeId);
-    const svgFiles =
-      svgIds.length > 0
-        ? this.request<GetImagesResponse>(
-            `/images/${fileKey}?ids=${svgIds.join(",")}&scale=2&format=svg`,
-          ).then(({ images = {} }) => images)
-        : ({} as GetImagesResponse["images"]);
-
-    const files = await Promise.all([pngFiles, svgFiles]).then(([f, l]) => ({ ...f, ...l }));
-
-    const downloads = nodes
-      .map(({ nodeId, fileName }) => {
-        const imageUrl = files[nodeId];
-        if (imageUrl) {
-          return downloadFigmaImage(fileName, localPath, imageUrl);
+    // The API renders a single format and scale per request
+    const groups = new Map<string, FetchImageParams[]>();
+    for (const node of nodes) {
+      const key = `${node.fileType}@${node.scale ?? DEFAULT_IMAGE_SCALE}`;
+      groups.set(key, [...(groups.get(key) ?? []), node]);
+    }
+
+    const downloads = await Promise.all(
+      [...groups.values()].map(async (group) => {
+        const { fileType, scale = DEFAULT_IMAGE_SCALE } = group[0];
+        const params = new URLSearchParams({
+          ids: [...new Set(group.map(({ nodeId }) => nodeId))].join(","),
+          scale: String(scale),
+          format: fileType,
+        });
+        if (fileType === "svg") {
+          if (options.svgIncludeId !== undefined) {
+            params.set("svg_include_id", String(options.svgIncludeId));
+          }
+          if (options.svgOutlineText !== undefined) {
+            params.set("svg_outline_text", String(options.svgOutlineText));
+          }
+          if (options.svgSimplifyStroke !== undefined) {
+            params.set("svg_simplify_stroke", String(options.svgSimplifyStroke));
+          }
         }
-        return false;
-      })
-      .filter((url) => !!url);
+        if (options.useAbsoluteBounds) params.set("use_absolute_bounds", "true");
+
+        const { images = {} } = await this.request<GetImagesResponse>(
+          `/images/${fileKey}?${params}`,
+        );
+        return group
+          .map(({ nodeId, fileName }) => {
+            const imageUrl = images[nodeId];
+            if (imageUrl) {
+              return downloadFigmaImage(fileName, localPath, imageUrl);
+            }
+            return false;
+          })
+          .filter((url) => !!url);
+      }),
+    );
 
-    return Promise.all(downloads);
+    return Promise.all(downloads.flat());
   }
 
-  async getFile(fileKey: string, depth?: number): Promise<SimplifiedDesign> {
+  /**
+   * Fetch the file's local variables and collections. The endpoint is only available to members of
+   * Enterprise orgs, so failures are logged and treated as "no variables" rather than surfaced.
+   */
+  async getLocalVariables(fileKey: string): Promise<VariableRegistry | undefined> {
+    if (this.variablesForbidden.has(fileKey)) return undefined;
     try {
-      const endpoint = `/files/${fileKey}${depth ? `?depth=${depth}` : ""}`;
-      Logger.log(`Retrieving Figma file: ${fileKey} (depth: ${depth ?? "default"})`);
-      const response = await this.request<GetFileResponse>(endpoint);
+      const { meta } = await this.request<GetLocalVariablesResponse>(
+        `/files/${fileKey}/variables/local`,
+      );
+      return { variables: meta.variables, variableCollections: meta.variableCollections };
+    } catch (error) {
+      if ((error as FigmaError).status === 403) this.variablesForbidden.add(fileKey);
+      Logger.log(`Local variables unavailable for ${fileKey}, continuing without them:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Fetch the file's document tree as returned by the API, without simplifying it
+   * @param version - Id of a version from getVersions, omit for the current version
+   */
+  async getRawFile(fileKey: string, depth?: number, version?: string): Promise<GetFileResponse> {
+    const params = new URLSearchParams();
+    if (depth) params.set("depth", `${depth}`);
+    if (version) params.set("version", version);
+    const query = params.toString();
+    const endpoint = `/files/${fileKey}${query ? `?${query}` : ""}`;
+    Logger.log(
+      `Retrieving Figma file: ${fileKey} (depth: ${depth ?? "default"}, version: ${version ?? "current"})`,
+    );
+    return this.request<GetFileResponse>(endpoint);
+  }
+
+  /**
+   * Fetch a page of the file's version history, newest first
+   * @param before - Only return versions older than this version id, to fetch the next page
+   * @returns The versions, and the id to pass as `before` when there are older versions
+   */
+  async getVersions(
+    fileKey: string,
+    before?: string,
+  ): Promise<{ versions: FileVersion[]; nextBefore?: string }> {
+    const { versions, pagination } = await this.request<GetFileVersionsResponse>(
+      `/files/${fileKey}/versions${before ? `?before=${before}` : ""}`,
+    );
+    return {
+      versions: versions.map((version) => ({
+        id: version.id,
+        createdAt: version.created_at,
+        label: version.label ?? undefined,
+        description: version.description || undefined,
+        author: version.user.handle,
+      })),
+      nextBefore: pagination?.next_page ? versions[versions.length - 1]?.id : undefined,
+    };
+  }
+
+  /**
+   * List the projects of a team the token's user can see
+   * @param teamId - Defaults to the configured team
+   */
+  async getProjects(teamId = this.teamId): Promise<{ team: string; projects: FigmaProject[] }> {
+    if (!teamId) {
+      throw new Error(
+        "No team id given. Pass a teamId, or configure FIGMA_TEAM_ID with the id from a team link like figma.com/files/team/<teamId>/...",
+      );
+    }
+    const { name, projects } = await this.request<GetTeamProjectsResponse>(
+      `/teams/${teamId}/projects`,
+    );
+    return { team: name, projects: projects.map(({ id, name }) => ({ id: String(id), name })) };
+  }
+
+  /**
+   * List the files of a project, most recently modified first
+   * @param project - The project's id, or its name within the team, compared case-insensitively
+   */
+  async getProjectFiles(
+    project: string,
+    { teamId, name: search }: FileListOptions = {},
+  ): Promise<{ project: FigmaProject; files: ProjectFile[] }> {
+    let projectId = project;
+    if (!/^\d+$/.test(project)) {
+      const { projects } = await this.getProjects(teamId);
+      const match = projects.find(({ name }) => name.toLowerCase() === project.toLowerCase());
+      if (!match) {
+        throw new Error(
+          `No project named "${project}", the team's projects are: ${projects.map(({ name }) => name).join(", ")}`,
+        );
+      }
+      projectId = match.id;
+    }
+
+    const { name, files } = await this.request<GetProjectFilesResponse>(
+      `/projects/${projectId}/files`,
+    );
+    return {
+      project: { id: projectId, name },
+      files: files
+        .map((file) => ({
+          key: file.key,
+          name: file.name,
+          thumbnailUrl: file.thumbnail_url,
+          lastModified: file.last_modified,
+        }))
+        .filter((file) => !search || file.name.toLowerCase().includes(search.toLowerCase()))
+        .sort((a, b) => b.lastModified.localeCompare(a.lastModified)),
+    };
+  }
+
+  /**
+   * List the most recently modified files across the projects of a team. The REST API doesn't
+   * expose a user's recently opened files, so this is the closest it offers. Projects are read a
+   * few at a time to stay clear of rate limits, and projects that fail are skipped and listed.
+   * @param limit - How many files to return
+   */
+  async getRecentFiles({ teamId, name }: FileListOptions = {}, limit = 20): Promise<RecentFiles> {
+    const { projects } = await this.getProjects(teamId);
+    const files: ProjectFile[] = [];
+    const failedProjects: NonNullable<RecentFiles["failedProjects"]> = [];
+
+    const queue = [...projects];
+    const worker = async () => {
+      for (let project = queue.shift(); project; project = queue.shift()) {
+        try {
+          const result = await this.getProjectFiles(project.id, { name });
+          files.push(...result.files.map((file) => ({ ...file, project: project!.name })));
+        } catch (error) {
+          Logger.error(`Failed to list files of project ${project.name}:`, error);
+          failedProjects.push({ ...project, error: formatError(error) });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: PROJECT_REQUEST_CONCURRENCY }, worker));
+
+    return {
+      files: files.sort((a, b) => b.lastModified.localeCompare(a.lastModified)).slice(0, limit),
+      failedProjects: failedProjects.length ? failedProjects : undefined,
+    };
+  }
+
+  /**
+   * Fetch the pages, sections and top-level frames of a file using shallow requests, so that
+   * picking a frame doesn't require downloading the whole document
+   */
+  async getFileOutline(fileKey: string): Promise<FileOutline> {
+    const file = await this.getRawFile(fileKey, OUTLINE_DEPTH);
+    const sectionIds = findSectionIds(file);
+    if (sectionIds.length === 0) return buildFileOutline(file);
+
+    const { nodes } = await this.request<GetFileNodesResponse>(
+      `/files/${fileKey}/nodes?ids=${sectionIds.join(",")}&depth=${SECTION_DEPTH}`,
+    );
+    const sections = Object.fromEntries(
+      Object.entries(nodes)
+        .filter(([, node]) => !!node)
+        .map(([id, node]) => [id, node.document]),
+    );
+    return buildFileOutline(file, sections);
+  }
+
+  /**
+   * Fetch the comment threads of a file, with messages in markdown
+   */
+  async getComments(fileKey: string, filters: CommentFilters = {}): Promise<CommentThread[]> {
+    const { comments } = await this.request<GetCommentsResponse>(
+      `/files/${fileKey}/comments?as_md=true`,
+    );
+    return buildCommentThreads(comments, filters);
+  }
+
+  /**
+   * Post a comment, either starting a thread pinned to a node or replying to an existing thread
+   * @param options.nodeId - Node to pin a new thread to
+   * @param options.offset - Position of the pin relative to the node's top-left corner
+   * @param options.replyTo - Id of the thread to reply to; replies can't be pinned themselves
+   */
+  async postComment(
+    fileKey: string,
+    message: string,
+    options: { nodeId?: string; offset?: { x: number; y: number }; replyTo?: string } = {},
+  ): Promise<Comment> {
+    const { nodeId, offset = { x: 0, y: 0 }, replyTo } = options;
+    if (replyTo && nodeId) {
+      throw new Error("Replies are shown in their thread, pass either replyTo or nodeId");
+    }
+    const body: PostCommentRequestBody = { message };
+    if (replyTo) body.comment_id = replyTo;
+    if (nodeId) body.client_meta = { node_id: nodeId, node_offset: offset };
+
+    Logger.log(`Posting comment to ${fileKey}${replyTo ? ` in reply to ${replyTo}` : ""}`);
+    return this.request<Comment>(`/files/${fileKey}/comments`, { method: "POST", body });
+  }
+
+  /**
+   * Fetch the dev resources of a file
+   * @param nodeIds - Only return the resources attached to these nodes
+   */
+  async getDevResources(fileKey: string, nodeIds?: string[]): Promise<SimplifiedDevResource[]> {
+    const { dev_resources } = await this.request<GetDevResourcesResponse>(
+      `/files/${fileKey}/dev_resources${nodeIds?.length ? `?node_ids=${nodeIds.join(",")}` : ""}`,
+    );
+    return dev_resources.map(simplifyDevResource);
+  }
+
+  /**
+   * Attach a link to a node in Dev Mode
+   * @throws Error with Figma's reason when the link wasn't created, e.g. a duplicate URL
+   */
+  async addDevResource(
+    fileKey: string,
+    resource: Omit<SimplifiedDevResource, "id">,
+  ): Promise<SimplifiedDevResource> {
+    const body: PostDevResourcesRequestBody = {
+      dev_resources: [
+        { name: resource.name, url: resource.url, file_key: fileKey, node_id: resource.nodeId },
+      ],
+    };
+    const { links_created, errors } = await this.request<PostDevResourcesResponse>(
+      "/dev_resources",
+      { method: "POST", body },
+    );
+    if (!links_created.length) {
+      throw new Error(errors?.map(({ error }) => error).join(", ") || "Dev resource not created");
+    }
+    return simplifyDevResource(links_created[0]);
+  }
+
+  async deleteDevResource(fileKey: string, id: string): Promise<void> {
+    await this.request<void>(`/files/${fileKey}/dev_resources/${id}`, { method: "DELETE" });
+  }
+
+  async getFile(
+    fileKey: string,
+    depth?: number,
+    { includeVariables, ...options }: FetchDesignOptions = {},
+    version?: string,
+  ): Promise<SimplifiedDesign> {
+    try {
+      const [response, variables] = await Promise.all([
+        this.getRawFile(fileKey, depth, version),
+        includeVariables && !version ? this.getLocalVariables(fileKey) : undefined,
+      ]);
       Logger.log("Got response");
-      const simplifiedResponse = parseFigmaResponse(response);
+      const simplifiedResponse = parseFigmaResponse(response, variables, options);
       writeLogs("figma-raw.json", response);
       writeLogs("figma-simplified.json", simplifiedResponse);
       return simplifiedResponse;
@@ -150,17 +555,37 @@ export class FigmaService {
     }
   }
 
-  async getNode(fileKey: string, nodeId: string, depth?: number): Promise<SimplifiedDesign> {
-    const endpoint = `/files/${fileKey}/nodes?ids=${nodeId}${depth ? `&depth=${depth}` : ""}`;
-    const response = await this.request<GetFileNodesResponse>(endpoint);
+  async getNode(
+    fileKey: string,
+    nodeId: string,
+    depth?: number,
+    { includeMeasurements, includeVariables, ...options }: FetchDesignOptions = {},
+    version?: string,
+  ): Promise<SimplifiedDesign> {
+    const endpoint = `/files/${fileKey}/nodes?ids=${nodeId}${depth ? `&depth=${depth}` : ""}${
+      version ? `&version=${version}` : ""
+    }`;
+    const [response, variables, pages] = await Promise.all([
+      this.request<GetFileNodesResponse>(endpoint),
+      // Variables can't be fetched for a version, so they'd describe the current file instead
+      includeVariables && !version ? this.getLocalVariables(fileKey) : undefined,
+      includeMeasurements ? this.getRawFile(fileKey, 1, version) : undefined,
+    ]);
     Logger.log("Got response from getNode, now parsing.");
     writeLogs("figma-raw.json", response);
-    const simplifiedResponse = parseFigmaResponse(response);
+    const simplifiedResponse = parseFigmaResponse(response, variables, {
+      ...options,
+      measurements: pages && collectMeasurements(pages.document.children),
+    });
     writeLogs("figma-simplified.json", simplifiedResponse);
     return simplifiedResponse;
   }
 }
 
+function simplifyDevResource(resource: DevResource): SimplifiedDevResource {
+  return { id: resource.id, name: resource.name, url: resource.url, nodeId: resource.node_id };
+}
+
 function writeLogs(name: string, value: any) {
   try {
     if (process.env.NODE_ENV !== "development") return;
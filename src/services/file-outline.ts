@@ -0,0 +1,100 @@
+import type { GetFileResponse, Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import { hasValue, isRectangle } from "~/utils/identity.js";
+
+export interface OutlineNode {
+  id: string;
+  name: string;
+  type: string;
+  width?: number;
+  height?: number;
+  // Undefined when the node's children weren't part of the shallow response
+  childCount?: number;
+  // Only sections list their contents
+  children?: OutlineNode[];
+}
+
+export interface OutlinePage {
+  id: string;
+  name: string;
+  childCount: number;
+  children: OutlineNode[];
+}
+
+export interface FileOutline {
+  name: string;
+  lastModified: string;
+  pages: OutlinePage[];
+}
+
+// Node types that make up the structure of a page; loose shapes and text are only counted
+const OUTLINE_TYPES = new Set([
+  "SECTION",
+  "FRAME",
+  "COMPONENT",
+  "COMPONENT_SET",
+  "INSTANCE",
+  "GROUP",
+]);
+
+// A section's contents plus one more level, so their child counts are known
+export const SECTION_DEPTH = 2;
+// Pages, their top-level nodes and those nodes' children
+export const OUTLINE_DEPTH = 3;
+
+/**
+ * Collect the ids of the sections in a shallow file response, whose contents need a follow-up
+ * request to be counted
+ */
+export function findSectionIds(file: GetFileResponse): string[] {
+  return file.document.children.flatMap((page) =>
+    page.children.filter((n) => n.type === "SECTION").map((n) => n.id),
+  );
+}
+
+function buildOutlineNode(
+  n: FigmaDocumentNode,
+  sections: Record<string, FigmaDocumentNode>,
+): OutlineNode {
+  // Sections are fetched separately with enough depth to describe their contents
+  const source = sections[n.id] ?? n;
+  const box = isRectangle("absoluteBoundingBox", source) ? source.absoluteBoundingBox : undefined;
+  const children = hasValue("children", source) ? source.children : undefined;
+
+  const outline: OutlineNode = {
+    id: source.id,
+    name: source.name,
+    type: source.type,
+    width: box?.width,
+    height: box?.height,
+    childCount: children?.length,
+  };
+  if (source.type === "SECTION" && children) {
+    outline.children = children
+      .filter((child) => OUTLINE_TYPES.has(child.type))
+      .map((child) => buildOutlineNode(child, sections));
+  }
+  return outline;
+}
+
+/**
+ * Build the structural skeleton of a file from a shallow file response
+ * @param file - Response of a file request with depth OUTLINE_DEPTH
+ * @param sections - Section nodes fetched with depth SECTION_DEPTH, keyed by id
+ */
+export function buildFileOutline(
+  file: GetFileResponse,
+  sections: Record<string, FigmaDocumentNode> = {},
+): FileOutline {
+  return {
+    name: file.name,
+    lastModified: file.lastModified,
+    pages: file.document.children.map((page) => ({
+      id: page.id,
+      name: page.name,
+      childCount: page.children.length,
+      children: page.children
+        .filter((n) => OUTLINE_TYPES.has(n.type))
+        .map((n) => buildOutlineNode(n, sections)),
+    })),
+  };
+}
@@ -0,0 +1,231 @@
+import yaml from "js-yaml";
+import type { SimplifiedDesign, SimplifiedNode } from "~/services/simplify-node-response.js";
+
+export type OutputFormat = "json" | "json-compact" | "yaml" | "outline";
+
+export const includeGroups = [
+  "layout",
+  "text",
+  "appearance",
+  "components",
+  "variables",
+  "annotations",
+] as const;
+export type IncludeGroup = (typeof includeGroups)[number];
+
+// Node fields controlled by each include group; id, name, type and children are always kept
+const groupFields: Record<IncludeGroup, (keyof SimplifiedNode)[]> = {
+  layout: ["layout", "layoutGrids", "boundingBox"],
+  text: ["text", "textStyle", "textRuns"],
+  appearance: [
+    "fills",
+    "styles",
+    "strokes",
+    "effects",
+    "opacity",
+    "mixBlendMode",
+    "borderRadius",
+    "mask",
+    "maskedBy",
+  ],
+  components: [
+    "componentId",
+    "componentName",
+    "componentSetId",
+    "componentSetName",
+    "componentProperties",
+    "componentPropertyDefinitions",
+    "overrides",
+  ],
+  variables: ["variables"],
+  annotations: ["annotations", "measurements"],
+};
+
+// Node fields that hold a key into globalVars.styles
+const styleReferenceFields = [
+  "textStyle",
+  "fills",
+  "styles",
+  "strokes",
+  "effects",
+  "layout",
+  "layoutGrids",
+] as const;
+
+/**
+ * List the globalVars.styles keys a single node refers to, not including its children
+ */
+export function getStyleReferences(node: SimplifiedNode): string[] {
+  const references: string[] = [];
+  styleReferenceFields.forEach((field) => {
+    const id = node[field];
+    if (id) references.push(id);
+  });
+  node.textRuns?.forEach(({ textStyle, fills }) => {
+    if (textStyle) references.push(textStyle);
+    if (fills) references.push(fills);
+  });
+  return references;
+}
+
+/**
+ * Drop the global styles that no node in the design refers to anymore, and the assets of nodes
+ * that are no longer part of it
+ */
+export function pruneUnreferenced(design: SimplifiedDesign): SimplifiedDesign {
+  const usedStyles = new Set<string>();
+  const nodeIds = new Set<string>();
+  const visit = (node: SimplifiedNode) => {
+    getStyleReferences(node).forEach((id) => usedStyles.add(id));
+    nodeIds.add(node.id);
+    node.children?.forEach(visit);
+  };
+  design.nodes.forEach(visit);
+
+  const { styles, namedStyles } = design.globalVars;
+  const { images, vectors } = design.assets;
+  return {
+    ...design,
+    globalVars: {
+      ...design.globalVars,
+      styles: Object.fromEntries(Object.entries(styles).filter(([id]) => usedStyles.has(id))),
+      // Named styles that were overridden on some nodes are stored as "Name (2)", "Name (3)", ...
+      namedStyles:
+        namedStyles &&
+        Object.fromEntries(
+          Object.entries(namedStyles).filter(([name]) =>
+            [...usedStyles].some((id) => id === name || id.startsWith(`${name} (`)),
+          ),
+        ),
+    },
+    assets: {
+      images: images
+        .map((image) => ({
+          ...image,
+          nodes: image.nodes.filter(({ nodeId }) => nodeIds.has(nodeId)),
+        }))
+        .filter((image) => image.nodes.length > 0),
+      vectors: vectors.filter(({ nodeId }) => nodeIds.has(nodeId)),
+    },
+  };
+}
+
+/**
+ * Keep only the node fields in the given groups, and only the global styles and variables the
+ * remaining fields still reference
+ */
+export function projectDesign(
+  design: SimplifiedDesign,
+  include: readonly IncludeGroup[],
+): SimplifiedDesign {
+  const keptFields = new Set(include.flatMap((group) => groupFields[group]));
+  const droppedFields = includeGroups
+    .flatMap((group) => groupFields[group])
+    .filter((field) => !keptFields.has(field));
+
+  const projectNode = (node: SimplifiedNode): SimplifiedNode => {
+    const projected: SimplifiedNode = { ...node };
+    droppedFields.forEach((field) => delete projected[field]);
+    if (node.children) projected.children = node.children.map(projectNode);
+    return projected;
+  };
+
+  return pruneUnreferenced({
+    ...design,
+    nodes: design.nodes.map(projectNode),
+    components: include.includes("components") ? design.components : {},
+    componentSets: include.includes("components") ? design.componentSets : {},
+    globalVars: {
+      ...design.globalVars,
+      variables: include.includes("variables") ? design.globalVars.variables : undefined,
+    },
+  });
+}
+
+/**
+ * Serialize a simplified design for the model
+ * - json: pretty-printed JSON
+ * - json-compact: JSON without whitespace
+ * - yaml: YAML, which drops most of JSON's quoting and braces
+ * - outline: one line per node, indented by depth, followed by the referenced styles
+ */
+export function formatDesign(design: SimplifiedDesign, format: OutputFormat): string {
+  const { nodes, globalVars, ...metadata } = design;
+
+  switch (format) {
+    case "json": {
+      // Stringify each node individually to try to avoid max string length error with big files
+      const nodesJson = `[${nodes.map((node) => JSON.stringify(node, null, 2)).join(",")}]`;
+      const metadataJson = JSON.stringify(metadata, null, 2);
+      const globalVarsJson = JSON.stringify(globalVars, null, 2);
+      return `{ "metadata": ${metadataJson}, "nodes": ${nodesJson}, "globalVars": ${globalVarsJson} }`;
+    }
+    case "json-compact": {
+      const nodesJson = `[${nodes.map((node) => JSON.stringify(node)).join(",")}]`;
+      return `{"metadata":${JSON.stringify(metadata)},"nodes":${nodesJson},"globalVars":${JSON.stringify(globalVars)}}`;
+    }
+    case "yaml":
+      return yaml.dump({ metadata, nodes, globalVars }, { lineWidth: -1, noRefs: true });
+    case "outline":
+      return formatOutline(design);
+  }
+}
+
+function formatOutlineValue(value: unknown): string {
+  if (typeof value === "string") return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+  return JSON.stringify(value);
+}
+
+function formatOutlineNode(node: SimplifiedNode, depth: number, lines: string[]) {
+  const { id, name, type, children, ...fields } = node;
+  const attributes = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${formatOutlineValue(value)}`);
+  lines.push(
+    `${"  ".repeat(depth)}${name} [${type} ${id}]${attributes.map((a) => ` ${a}`).join("")}`,
+  );
+  children?.forEach((child) => formatOutlineNode(child, depth + 1, lines));
+}
+
+function formatOutline(design: SimplifiedDesign): string {
+  const { nodes, globalVars, components, componentSets, assets, name, lastModified, continuation } =
+    design;
+  const lines = [`# ${name} (last modified ${lastModified})`];
+  nodes.forEach((node) => formatOutlineNode(node, 0, lines));
+
+  const sections: [string, Record<string, unknown> | undefined][] = [
+    ["styles", globalVars.styles],
+    ["namedStyles", globalVars.namedStyles],
+    ["variables", globalVars.variables],
+    ["components", components],
+    ["componentSets", componentSets],
+  ];
+  for (const [title, entries] of sections) {
+    if (!entries || !Object.keys(entries).length) continue;
+    lines.push("", `# ${title}`);
+    Object.entries(entries).forEach(([key, value]) =>
+      lines.push(`${formatOutlineValue(key)}: ${JSON.stringify(value)}`),
+    );
+  }
+
+  if (assets.images.length || assets.vectors.length) {
+    lines.push("", "# assets");
+    assets.images.forEach(({ fileName, ...image }) =>
+      lines.push(`${fileName}: ${JSON.stringify(image)}`),
+    );
+    assets.vectors.forEach(({ fileName, ...vector }) =>
+      lines.push(`${fileName}: ${JSON.stringify(vector)}`),
+    );
+  }
+
+  if (continuation) {
+    lines.push(
+      "",
+      "# continuation",
+      `cursor: ${continuation.cursor}`,
+      `truncatedNodeIds: ${JSON.stringify(continuation.truncatedNodeIds)}`,
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,791 @@
+import type { SimplifiedLayout } from "~/transformers/layout.js";
+import { buildStrokeCss, PATH_TYPES, SimplifiedStroke } from "~/transformers/style.js";
+import type { SimplifiedEffects } from "~/transformers/effects.js";
+import type {
+  SimplifiedDesign,
+  SimplifiedFill,
+  SimplifiedNode,
+  SimplifiedTextRun,
+  TextStyle,
+} from "~/services/simplify-node-response.js";
+
+// -------------------- GENERATED STRUCTURES --------------------
+
+export type CodeTarget = "html-css" | "react-jsx-css-modules" | "react-tailwind";
+
+export interface GeneratedFile {
+  fileName: string;
+  content: string;
+}
+
+export interface GeneratedAsset {
+  nodeId: string;
+  fileName: string;
+  // Present for raster image fills; pass it along to download_figma_images
+  imageRef?: string;
+}
+
+export interface GeneratedComponent {
+  componentName: string;
+  target: CodeTarget;
+  files: GeneratedFile[];
+  assets: GeneratedAsset[];
+}
+
+// Ordered so that output is stable between runs
+type Declarations = [property: string, value: string][];
+
+interface ElementTree {
+  tag: string;
+  className?: string;
+  declarations: Declarations;
+  attributes: [name: string, value: string][];
+  comment?: string;
+  text?: string;
+  children: ElementTree[];
+}
+
+interface GenerateContext {
+  design: SimplifiedDesign;
+  assetPath: string;
+  usedClassNames: Map<string, number>;
+  assets: GeneratedAsset[];
+  assetFileNames: Map<string, string>;
+}
+
+// ---------------------- GENERATION ----------------------
+
+/**
+ * Generate markup and styles for a simplified Figma design. The output only depends on the
+ * design, so fetching the same node twice yields byte-identical code.
+ * @param design - The simplified design, usually a single node fetched with FigmaService.getNode
+ * @param target - Which kind of code to emit
+ * @param componentName - Optional name for the component, defaults to the root node's name
+ */
+export function generateComponentCode(
+  design: SimplifiedDesign,
+  target: CodeTarget,
+  componentName?: string,
+): GeneratedComponent {
+  const context: GenerateContext = {
+    design,
+    assetPath: "./assets",
+    usedClassNames: new Map(),
+    assets: [],
+    assetFileNames: new Map(),
+  };
+
+  const name = toPascalCase(componentName || design.nodes[0]?.name || design.name) || "Component";
+  const roots = design.nodes.map((node) => buildElement(context, node));
+  const root: ElementTree =
+    roots.length === 1
+      ? roots[0]
+      : {
+          tag: "div",
+          className: uniqueClassName(context, name),
+          declarations: [],
+          attributes: [],
+          children: roots,
+        };
+
+  let files: GeneratedFile[];
+  switch (target) {
+    case "html-css":
+      files = generateHtmlCss(root, toKebabCase(name));
+      break;
+    case "react-jsx-css-modules":
+      files = generateReactCssModules(root, name);
+      break;
+    case "react-tailwind":
+      files = generateReactTailwind(root, name);
+      break;
+  }
+
+  return { componentName: name, target, files, assets: context.assets };
+}
+
+function buildElement(
+  context: GenerateContext,
+  node: SimplifiedNode,
+  parentLayout?: SimplifiedLayout,
+): ElementTree {
+  const layout = getStyle<SimplifiedLayout>(context, node.layout);
+  const element: ElementTree = {
+    tag: "div",
+    className: uniqueClassName(context, node.name || node.type),
+    declarations: [...layoutDeclarations(layout), ...childLayoutDeclarations(layout, parentLayout)],
+    attributes: [],
+    children: [],
+  };
+
+  if (node.componentName) {
+    const properties = (node.componentProperties ?? [])
+      .map(({ name, value }) => `${name}=${value}`)
+      .join(", ");
+    const componentName = node.componentSetName ?? node.componentName;
+    element.comment = `Instance of ${componentName}${properties ? ` (${properties})` : ""}`;
+  }
+
+  if (node.type === "IMAGE-SVG") {
+    element.tag = "img";
+    element.attributes.push(
+      ["src", `${context.assetPath}/${registerAsset(context, node, "svg")}`],
+      ["alt", node.name],
+    );
+    element.declarations.push(...appearanceDeclarations(context, node));
+    return element;
+  }
+
+  if (node.type === "TEXT") {
+    element.tag = "p";
+    element.declarations.push(...textDeclarations(context, node));
+    element.declarations.push(...appearanceDeclarations(context, node, { isText: true }));
+    if (node.textRuns) {
+      element.children = node.textRuns.map((run) => buildTextRunElement(context, node, run));
+    } else {
+      element.text = node.text ?? "";
+    }
+    return element;
+  }
+
+  element.declarations.push(...appearanceDeclarations(context, node));
+  element.children = (node.children ?? []).map((child) => buildElement(context, child, layout));
+
+  // Absolutely positioned children need a positioned ancestor
+  if (element.children.some((child) => hasDeclaration(child, "position", "absolute"))) {
+    element.declarations.push(["position", "relative"]);
+  }
+
+  return element;
+}
+
+function buildTextRunElement(
+  context: GenerateContext,
+  node: SimplifiedNode,
+  run: SimplifiedTextRun,
+): ElementTree {
+  const declarations: Declarations = [];
+  const runStyle = getStyle<TextStyle>(context, run.textStyle);
+  if (runStyle) declarations.push(...textStyleDeclarations(runStyle));
+  const runFills = getStyle<SimplifiedFill[]>(context, run.fills);
+  if (runFills) declarations.push(...textColorDeclarations(runFills));
+  if (run.indent) declarations.push(["margin-left", `${run.indent * 1.5}em`]);
+
+  const element: ElementTree = {
+    tag: run.link ? "a" : "span",
+    className: declarations.length
+      ? uniqueClassName(context, `${node.name || "text"} run`)
+      : undefined,
+    declarations,
+    attributes: [],
+    text: run.text,
+    children: [],
+  };
+  if (run.link) {
+    element.attributes.push(["href", run.link.url ?? `#${run.link.nodeId}`]);
+  }
+  if (run.listType) {
+    element.attributes.push(["data-list", run.listType]);
+  }
+  return element;
+}
+
+function registerAsset(
+  context: GenerateContext,
+  node: SimplifiedNode,
+  extension: "svg" | "png",
+  imageRef?: string,
+): string {
+  // Nodes sharing an image fill share the downloaded file
+  const key = imageRef ?? node.id;
+  const existing = context.assetFileNames.get(key);
+  if (existing) return existing;
+
+  // Prefer the names from the design's asset manifest so both agree on what to download
+  const { images, vectors } = context.design.assets;
+  const suggested = imageRef
+    ? images.find((image) => image.imageRef === imageRef)?.fileName
+    : vectors.find((vector) => vector.nodeId === node.id)?.fileName;
+
+  const baseName = toKebabCase(node.name) || "asset";
+  // Image fills are suggested without an extension, but the generated code has to name the file
+  let fileName = `${suggested ?? baseName}.${extension}`;
+  if (suggested && /\.\w+$/.test(suggested)) fileName = suggested;
+  for (let i = 2; !suggested && context.assets.some((asset) => asset.fileName === fileName); i++) {
+    fileName = `${baseName}-${i}.${extension}`;
+  }
+  context.assets.push({ nodeId: node.id, fileName, imageRef });
+  context.assetFileNames.set(key, fileName);
+  return fileName;
+}
+
+// -------------------- CSS DECLARATIONS --------------------
+
+function getStyle<T>(context: GenerateContext, id?: string): T | undefined {
+  return id ? (context.design.globalVars.styles[id] as T | undefined) : undefined;
+}
+
+function hasDeclaration(element: ElementTree, property: string, value: string) {
+  return element.declarations.some(([p, v]) => p === property && v === value);
+}
+
+const px = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+function layoutDeclarations(layout?: SimplifiedLayout): Declarations {
+  if (!layout) return [];
+  const declarations: Declarations = [];
+
+  if (layout.mode === "row" || layout.mode === "column") {
+    declarations.push(["display", "flex"]);
+    if (layout.mode === "column") declarations.push(["flex-direction", "column"]);
+    if (layout.wrap) declarations.push(["flex-wrap", "wrap"]);
+    if (layout.justifyContent) declarations.push(["justify-content", layout.justifyContent]);
+    if (layout.alignItems) declarations.push(["align-items", layout.alignItems]);
+  } else if (layout.mode === "grid") {
+    declarations.push(["display", "grid"]);
+    if (layout.gridTemplateColumns) {
+      declarations.push(["grid-template-columns", layout.gridTemplateColumns]);
+    }
+    if (layout.gridTemplateRows) declarations.push(["grid-template-rows", layout.gridTemplateRows]);
+  }
+  if (layout.gap) declarations.push(["gap", layout.gap]);
+  if (layout.padding) declarations.push(["padding", layout.padding]);
+
+  const { dimensions, relativeSize } = layout;
+  if (relativeSize?.width) declarations.push(["width", relativeSize.width]);
+  else if (dimensions?.width) declarations.push(["width", px(dimensions.width)]);
+  if (relativeSize?.height) declarations.push(["height", relativeSize.height]);
+  else if (dimensions?.height) declarations.push(["height", px(dimensions.height)]);
+  if (dimensions?.aspectRatio) {
+    declarations.push(["aspect-ratio", `${Math.round(dimensions.aspectRatio * 1000) / 1000}`]);
+  }
+  if (dimensions?.minWidth) declarations.push(["min-width", px(dimensions.minWidth)]);
+  if (dimensions?.maxWidth) declarations.push(["max-width", px(dimensions.maxWidth)]);
+  if (dimensions?.minHeight) declarations.push(["min-height", px(dimensions.minHeight)]);
+  if (dimensions?.maxHeight) declarations.push(["max-height", px(dimensions.maxHeight)]);
+
+  if (layout.overflow) declarations.push(["overflow", layout.overflow]);
+  if (layout.overflowScroll?.includes("x")) declarations.push(["overflow-x", "auto"]);
+  if (layout.overflowScroll?.includes("y")) declarations.push(["overflow-y", "auto"]);
+  if (layout.transform) declarations.push(["transform", layout.transform]);
+
+  return declarations;
+}
+
+// How a node sits inside its parent: flex/grid item behavior or absolute insets
+function childLayoutDeclarations(
+  layout?: SimplifiedLayout,
+  parentLayout?: SimplifiedLayout,
+): Declarations {
+  if (!layout) return [];
+  const declarations: Declarations = [];
+
+  const positioned =
+    layout.position === "absolute" || layout.insets || layout.locationRelativeToParent;
+  if (positioned && parentLayout) {
+    declarations.push(["position", "absolute"]);
+    if (layout.insets) {
+      const { top, right, bottom, left } = layout.insets;
+      if (top) declarations.push(["top", top]);
+      if (right) declarations.push(["right", right]);
+      if (bottom) declarations.push(["bottom", bottom]);
+      if (left) declarations.push(["left", left]);
+    } else if (layout.locationRelativeToParent) {
+      declarations.push(["top", px(layout.locationRelativeToParent.y)]);
+      declarations.push(["left", px(layout.locationRelativeToParent.x)]);
+    }
+    return declarations;
+  }
+
+  if (parentLayout?.mode === "row" || parentLayout?.mode === "column") {
+    const mainAxis = parentLayout.mode === "row" ? "horizontal" : "vertical";
+    const crossAxis = parentLayout.mode === "row" ? "vertical" : "horizontal";
+    if (layout.flexGrow || layout.sizing?.[mainAxis] === "fill") {
+      declarations.push(["flex", "1 1 0"]);
+    }
+    if (layout.sizing?.[crossAxis] === "fill" && parentLayout.alignItems !== "stretch") {
+      declarations.push(["align-self", "stretch"]);
+    } else if (layout.alignSelf) {
+      declarations.push(["align-self", layout.alignSelf]);
+    }
+  } else if (parentLayout?.mode === "grid") {
+    if (layout.gridRow) declarations.push(["grid-row", layout.gridRow]);
+    if (layout.gridColumn) declarations.push(["grid-column", layout.gridColumn]);
+    if (layout.justifySelf) declarations.push(["justify-self", layout.justifySelf]);
+    if (layout.alignSelf) declarations.push(["align-self", layout.alignSelf]);
+  }
+
+  return declarations;
+}
+
+function tokenToCssVar(token: string) {
+  return `--${token
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase()}`;
+}
+
+// Solid colors, with a var() reference when the color is bound to a design token
+function fillColor(fill: SimplifiedFill): string | undefined {
+  if (typeof fill === "string") return fill;
+  const color = fill.hex ?? fill.rgba;
+  if (!color) return undefined;
+  return fill.variable ? `var(${tokenToCssVar(fill.variable)}, ${color})` : color;
+}
+
+function backgroundDeclarations(
+  context: GenerateContext,
+  node: SimplifiedNode,
+  fills: SimplifiedFill[],
+): Declarations {
+  // Figma lists fills bottom to top, CSS lists background layers top to bottom
+  const layers = [...fills].reverse();
+  const color = fillColor(layers[layers.length - 1]);
+  if (layers.length === 1 && color) {
+    return [["background-color", color]];
+  }
+
+  const images: string[] = [];
+  const sizes: string[] = [];
+  const positions: string[] = [];
+  const repeats: string[] = [];
+  const blendModes: string[] = [];
+  for (const layer of layers) {
+    const solid = fillColor(layer);
+    if (solid) {
+      images.push(`linear-gradient(${solid}, ${solid})`);
+    } else if (typeof layer !== "string" && layer.gradient) {
+      images.push(layer.gradient);
+    } else if (typeof layer !== "string" && layer.imageRef) {
+      const fileName = registerAsset(context, node, "png", layer.imageRef);
+      images.push(`url("${context.assetPath}/${fileName}")`);
+    } else {
+      continue;
+    }
+    const isObject = typeof layer !== "string";
+    sizes.push((isObject && layer.backgroundSize) || "auto");
+    positions.push((isObject && layer.backgroundPosition) || "0 0");
+    repeats.push((isObject && layer.backgroundRepeat) || "no-repeat");
+    blendModes.push((isObject && layer.blendMode) || "normal");
+  }
+
+  if (!images.length) return [];
+  const declarations: Declarations = [["background-image", images.join(", ")]];
+  if (sizes.some((size) => size !== "auto"))
+    declarations.push(["background-size", sizes.join(", ")]);
+  if (positions.some((position) => position !== "0 0")) {
+    declarations.push(["background-position", positions.join(", ")]);
+  }
+  declarations.push(["background-repeat", repeats.join(", ")]);
+  if (blendModes.some((mode) => mode !== "normal")) {
+    declarations.push(["background-blend-mode", blendModes.join(", ")]);
+  }
+  return declarations;
+}
+
+function textColorDeclarations(fills: SimplifiedFill[]): Declarations {
+  const topmost = [...fills].reverse().find((fill) => fillColor(fill));
+  if (topmost) return [["color", fillColor(topmost)!]];
+  const gradient = fills.find((fill) => typeof fill !== "string" && fill.gradient);
+  if (gradient && typeof gradient !== "string") {
+    return [
+      ["background-image", gradient.gradient!],
+      ["background-clip", "text"],
+      ["color", "transparent"],
+    ];
+  }
+  return [];
+}
+
+function appearanceDeclarations(
+  context: GenerateContext,
+  node: SimplifiedNode,
+  { isText = false } = {},
+): Declarations {
+  const declarations: Declarations = [];
+
+  const fills = getStyle<SimplifiedFill[]>(context, node.fills);
+  if (fills && node.type !== "IMAGE-SVG") {
+    declarations.push(
+      ...(isText ? textColorDeclarations(fills) : backgroundDeclarations(context, node, fills)),
+    );
+  }
+
+  const strokes = getStyle<SimplifiedStroke>(context, node.strokes);
+  const strokeColor = strokes?.colors.length
+    ? (fillColor(strokes.colors[0]) ?? "currentColor")
+    : undefined;
+  // Text strokes follow the glyphs; other path strokes can't be drawn around the box at all
+  if (strokeColor && node.type === "TEXT") {
+    declarations.push(["-webkit-text-stroke", `${strokes!.strokeWeight ?? "1px"} ${strokeColor}`]);
+  }
+  const strokeCss =
+    strokeColor && node.type !== "IMAGE-SVG" && !PATH_TYPES.has(node.type)
+      ? buildStrokeCss({ strokeWeight: "1px", ...strokes! }, strokeColor)
+      : undefined;
+  if (strokeCss?.borderWidth) {
+    declarations.push(["box-sizing", "border-box"]);
+    declarations.push(["border-style", strokeCss.borderStyle!]);
+    declarations.push(["border-width", strokeCss.borderWidth]);
+    declarations.push(["border-color", strokeCss.borderColor!]);
+  }
+  if (strokeCss?.outline) {
+    declarations.push(["outline", strokeCss.outline]);
+    if (strokeCss.outlineOffset !== "0px") {
+      declarations.push(["outline-offset", strokeCss.outlineOffset!]);
+    }
+  }
+
+  if (node.borderRadius) declarations.push(["border-radius", node.borderRadius]);
+
+  const effects = getStyle<SimplifiedEffects>(context, node.effects);
+  // Stroke shadows are drawn on top of the node's own shadows
+  const boxShadow = [strokeCss?.boxShadow, effects?.boxShadow].filter(Boolean).join(", ");
+  if (boxShadow) declarations.push(["box-shadow", boxShadow]);
+  if (effects?.filter) declarations.push(["filter", effects.filter]);
+  if (effects?.backdropFilter) declarations.push(["backdrop-filter", effects.backdropFilter]);
+
+  if (node.opacity !== undefined) declarations.push(["opacity", `${node.opacity}`]);
+  if (node.mixBlendMode) declarations.push(["mix-blend-mode", node.mixBlendMode]);
+
+  return declarations;
+}
+
+function textDeclarations(context: GenerateContext, node: SimplifiedNode): Declarations {
+  const textStyle = getStyle<TextStyle>(context, node.textStyle);
+  const declarations = textStyle ? textStyleDeclarations(textStyle) : [];
+  // Keep the designer's line breaks
+  if (node.text?.includes("\n")) declarations.push(["white-space", "pre-line"]);
+  return declarations;
+}
+
+const textCases: Record<string, string> = {
+  UPPER: "uppercase",
+  LOWER: "lowercase",
+  TITLE: "capitalize",
+};
+
+const textAligns: Record<string, string> = {
+  LEFT: "left",
+  RIGHT: "right",
+  CENTER: "center",
+  JUSTIFIED: "justify",
+};
+
+function textStyleDeclarations(style: TextStyle): Declarations {
+  const declarations: Declarations = [];
+  if (style.fontFamily) declarations.push(["font-family", `"${style.fontFamily}"`]);
+  if (style.fontSize) declarations.push(["font-size", px(style.fontSize)]);
+  if (style.fontWeight) declarations.push(["font-weight", `${style.fontWeight}`]);
+  if (style.italic) declarations.push(["font-style", "italic"]);
+  if (style.lineHeight) declarations.push(["line-height", style.lineHeight]);
+  if (style.letterSpacing?.endsWith("%")) {
+    // CSS letter-spacing doesn't accept percentages; Figma's are relative to the font size
+    const em = Math.round((parseFloat(style.letterSpacing) / 100) * 1000) / 1000;
+    declarations.push(["letter-spacing", `${em}em`]);
+  }
+  if (style.textCase && textCases[style.textCase]) {
+    declarations.push(["text-transform", textCases[style.textCase]]);
+  }
+  if (style.textDecoration === "NONE") declarations.push(["text-decoration", "none"]);
+  if (style.textDecoration === "UNDERLINE") declarations.push(["text-decoration", "underline"]);
+  if (style.textDecoration === "STRIKETHROUGH") {
+    declarations.push(["text-decoration", "line-through"]);
+  }
+  if (style.textAlignHorizontal && style.textAlignHorizontal !== "LEFT") {
+    declarations.push(["text-align", textAligns[style.textAlignHorizontal]]);
+  }
+  if (style.textTruncation === "ENDING") {
+    declarations.push(["overflow", "hidden"]);
+    if (style.maxLines && style.maxLines > 1) {
+      declarations.push(
+        ["display", "-webkit-box"],
+        ["-webkit-box-orient", "vertical"],
+        ["-webkit-line-clamp", `${style.maxLines}`],
+      );
+    } else {
+      declarations.push(["white-space", "nowrap"], ["text-overflow", "ellipsis"]);
+    }
+  }
+  return declarations;
+}
+
+// -------------------- EMITTERS --------------------
+
+function uniqueClassName(context: GenerateContext, name: string): string {
+  const base = toKebabCase(name) || "element";
+  const count = (context.usedClassNames.get(base) ?? 0) + 1;
+  context.usedClassNames.set(base, count);
+  return count === 1 ? base : `${base}-${count}`;
+}
+
+function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase()
+    .replace(/^(\d)/, "n$1");
+}
+
+function toPascalCase(value: string): string {
+  return toKebabCase(value)
+    .split("-")
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function collectRules(element: ElementTree, rules: [string, Declarations][] = []) {
+  if (element.className && element.declarations.length) {
+    rules.push([element.className, element.declarations]);
+  }
+  element.children.forEach((child) => collectRules(child, rules));
+  return rules;
+}
+
+function generateCss(root: ElementTree): string {
+  return collectRules(root)
+    .map(
+      ([className, declarations]) =>
+        `.${className} {\n${declarations.map(([p, v]) => `  ${p}: ${v};`).join("\n")}\n}`,
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+const VOID_TAGS = new Set(["img"]);
+
+type MarkupFlavor = {
+  classAttribute: (element: ElementTree) => string | undefined;
+  escapeText: (text: string) => string;
+  comment: (text: string) => string;
+  selfClose: string;
+};
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeJsx(text: string) {
+  return escapeHtml(text).replace(/\{/g, "&#123;").replace(/\}/g, "&#125;");
+}
+
+function renderMarkup(element: ElementTree, flavor: MarkupFlavor, indent: string): string {
+  const classAttribute = flavor.classAttribute(element);
+  const attributes = [
+    ...(classAttribute ? [classAttribute] : []),
+    ...element.attributes.map(([name, value]) => `${name}="${escapeHtml(value)}"`),
+  ];
+  const open = `<${element.tag}${attributes.length ? ` ${attributes.join(" ")}` : ""}`;
+  const comment = element.comment ? `${indent}${flavor.comment(element.comment)}\n` : "";
+
+  if (VOID_TAGS.has(element.tag)) {
+    return `${comment}${indent}${open}${flavor.selfClose}`;
+  }
+  if (element.text !== undefined) {
+    // Newlines are kept by white-space: pre-line, so text stays on one source line
+    const text = flavor.escapeText(element.text).replace(/\n/g, "&#10;");
+    return `${comment}${indent}${open}>${text}</${element.tag}>`;
+  }
+  if (!element.children.length) {
+    return `${comment}${indent}${open}></${element.tag}>`;
+  }
+  if (element.children.every((child) => child.text !== undefined && !child.children.length)) {
+    // Text runs render inline so no whitespace is introduced between them
+    const inline = element.children
+      .map((child) => renderMarkup(child, flavor, "").replace(/\n/g, ""))
+      .join("");
+    return `${comment}${indent}${open}>${inline}</${element.tag}>`;
+  }
+  const children = element.children
+    .map((child) => renderMarkup(child, flavor, `${indent}  `))
+    .join("\n");
+  return `${comment}${indent}${open}>\n${children}\n${indent}</${element.tag}>`;
+}
+
+function generateHtmlCss(root: ElementTree, baseName: string): GeneratedFile[] {
+  const markup = renderMarkup(
+    root,
+    {
+      classAttribute: (element) =>
+        element.className && element.declarations.length
+          ? `class="${element.className}"`
+          : undefined,
+      escapeText: escapeHtml,
+      comment: (text) => `<!-- ${text.replace(/--/g, "- -")} -->`,
+      selfClose: " />",
+    },
+    "",
+  );
+  return [
+    { fileName: `${baseName}.html`, content: `${markup}\n` },
+    { fileName: `${baseName}.css`, content: generateCss(root) },
+  ];
+}
+
+// JSX allows a single expression after return, so the root's comment goes above the statement
+function jsxRootComment(root: ElementTree): string[] {
+  return root.comment ? [`  // ${root.comment}`] : [];
+}
+
+function generateReactCssModules(root: ElementTree, name: string): GeneratedFile[] {
+  const markup = renderMarkup(
+    { ...root, comment: undefined },
+    {
+      classAttribute: (element) =>
+        element.className && element.declarations.length
+          ? `className={styles["${element.className}"]}`
+          : undefined,
+      escapeText: escapeJsx,
+      comment: (text) => `{/* ${text.replace(/\*\//g, "* /")} */}`,
+      selfClose: " />",
+    },
+    "    ",
+  );
+  const component = [
+    `import styles from "./${name}.module.css";`,
+    "",
+    `export function ${name}() {`,
+    ...jsxRootComment(root),
+    "  return (",
+    markup,
+    "  );",
+    "}",
+    "",
+  ].join("\n");
+  return [
+    { fileName: `${name}.tsx`, content: component },
+    { fileName: `${name}.module.css`, content: generateCss(root) },
+  ];
+}
+
+// Declarations with a direct Tailwind utility; everything else becomes an arbitrary value or property
+const tailwindUtilities: Record<string, (value: string) => string | undefined> = {
+  display: (v) => ({ flex: "flex", grid: "grid", "-webkit-box": undefined })[v],
+  "flex-direction": (v) => (v === "column" ? "flex-col" : undefined),
+  "flex-wrap": (v) => (v === "wrap" ? "flex-wrap" : undefined),
+  flex: (v) => (v === "1 1 0" ? "flex-1" : undefined),
+  "justify-content": (v) =>
+    ({
+      "flex-start": "justify-start",
+      "flex-end": "justify-end",
+      center: "justify-center",
+      "space-between": "justify-between",
+      stretch: "justify-stretch",
+    })[v],
+  "align-items": (v) =>
+    ({
+      "flex-start": "items-start",
+      "flex-end": "items-end",
+      center: "items-center",
+      baseline: "items-baseline",
+      stretch: "items-stretch",
+    })[v],
+  "align-self": (v) =>
+    ({
+      "flex-start": "self-start",
+      "flex-end": "self-end",
+      start: "self-start",
+      end: "self-end",
+      center: "self-center",
+      stretch: "self-stretch",
+    })[v],
+  "justify-self": (v) => `justify-self-${v}`,
+  position: (v) => v,
+  "box-sizing": (v) => (v === "border-box" ? "box-border" : undefined),
+  overflow: (v) => `overflow-${v}`,
+  "overflow-x": (v) => `overflow-x-${v}`,
+  "overflow-y": (v) => `overflow-y-${v}`,
+  "font-style": (v) => (v === "italic" ? "italic" : undefined),
+  "text-transform": (v) => v,
+  "text-decoration": (v) => (v === "none" ? "no-underline" : v),
+  "text-align": (v) => `text-${v}`,
+  "white-space": (v) => `whitespace-${v}`,
+  "text-overflow": (v) => (v === "ellipsis" ? "text-ellipsis" : undefined),
+  "-webkit-line-clamp": (v) => `line-clamp-${v}`,
+  "mix-blend-mode": (v) => `mix-blend-${v}`,
+  "background-blend-mode": (v) => (v.includes(",") ? undefined : `bg-blend-${v}`),
+};
+
+const tailwindPrefixes: Record<string, string> = {
+  gap: "gap",
+  padding: "p",
+  width: "w",
+  height: "h",
+  "min-width": "min-w",
+  "max-width": "max-w",
+  "min-height": "min-h",
+  "max-height": "max-h",
+  top: "top",
+  right: "right",
+  bottom: "bottom",
+  left: "left",
+  "background-color": "bg",
+  color: "text",
+  "font-size": "text",
+  "font-weight": "font",
+  "font-family": "font",
+  "line-height": "leading",
+  "letter-spacing": "tracking",
+  "border-radius": "rounded",
+  "border-width": "border",
+  "border-color": "border",
+  "box-shadow": "shadow",
+  "outline-offset": "outline-offset",
+  opacity: "opacity",
+  "grid-template-columns": "grid-cols",
+  "grid-template-rows": "grid-rows",
+  "grid-row": "row",
+  "grid-column": "col",
+  "aspect-ratio": "aspect",
+};
+
+// Tailwind arbitrary values use underscores for spaces, and must not close the className string
+const arbitrary = (value: string) =>
+  value.replace(/_/g, "\\_").replace(/\s+/g, "_").replace(/"/g, "'");
+
+function toTailwindClass([property, value]: [string, string]): string {
+  const utility = tailwindUtilities[property]?.(value);
+  if (utility) return utility;
+  if (property === "border-style") return value === "solid" ? "border-solid" : `border-${value}`;
+
+  const prefix = tailwindPrefixes[property];
+  if (prefix) {
+    // Disambiguate utilities that share a prefix, e.g. text-[16px] vs. text-[#000]
+    const hint =
+      property === "font-size" ? "length:" : property === "font-family" ? "family-name:" : "";
+    return `${prefix}-[${hint}${arbitrary(value)}]`;
+  }
+  return `[${property}:${arbitrary(value)}]`;
+}
+
+function generateReactTailwind(root: ElementTree, name: string): GeneratedFile[] {
+  const markup = renderMarkup(
+    { ...root, comment: undefined },
+    {
+      classAttribute: (element) =>
+        element.declarations.length
+          ? `className="${element.declarations.map(toTailwindClass).join(" ")}"`
+          : undefined,
+      escapeText: escapeJsx,
+      comment: (text) => `{/* ${text.replace(/\*\//g, "* /")} */}`,
+      selfClose: " />",
+    },
+    "    ",
+  );
+  const component = [
+    `export function ${name}() {`,
+    ...jsxRootComment(root),
+    "  return (",
+    markup,
+    "  );",
+    "}",
+    "",
+  ].join("\n");
+  return [{ fileName: `${name}.tsx`, content: component }];
+}
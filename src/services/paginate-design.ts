@@ -0,0 +1,178 @@
+import yaml from "js-yaml";
+import type { SimplifiedDesign, SimplifiedNode } from "~/services/simplify-node-response.js";
+import { getStyleReferences, OutputFormat, pruneUnreferenced } from "~/services/format-design.js";
+
+export const DEFAULT_PAGE_TOKENS = 20000;
+
+// Rough token estimate for JSON-ish text; close enough to budget against client limits
+const CHARS_PER_TOKEN = 4;
+
+interface CursorState {
+  // Pre-order index of the first node on the next page
+  offset: number;
+  // Guards against paging through a file that changed between calls
+  lastModified: string;
+}
+
+interface FlatNode {
+  node: SimplifiedNode;
+  parentId?: string;
+  // Nesting level, 0 for top-level nodes
+  depth: number;
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof state.offset === "number" && typeof state.lastModified === "string") {
+      return state;
+    }
+  } catch {
+    // Handled below
+  }
+  throw new Error(`Invalid cursor "${cursor}", start over without a cursor`);
+}
+
+function flatten(
+  nodes: SimplifiedNode[],
+  parentId?: string,
+  depth = 0,
+  result: FlatNode[] = [],
+): FlatNode[] {
+  for (const node of nodes) {
+    result.push({ node, parentId, depth });
+    if (node.children) flatten(node.children, node.id, depth + 1, result);
+  }
+  return result;
+}
+
+/**
+ * Estimate the tokens a value takes up in the output, serialized the way formatDesign writes the
+ * given format
+ * @param level - How many levels of indentation the value is nested at in the output
+ */
+function estimateTokens(value: unknown, format: OutputFormat, level = 0): number {
+  let text: string;
+  switch (format) {
+    case "json":
+      text = JSON.stringify(value, null, 2) ?? "";
+      break;
+    case "yaml":
+      text = yaml.dump(value, { lineWidth: -1, noRefs: true });
+      // Unlike the JSON output, every section of the YAML output is indented under its key
+      level += 1;
+      break;
+    default:
+      // The outline writes fields as key=value pairs, about as long as compact JSON
+      return Math.ceil((JSON.stringify(value) ?? "").length / CHARS_PER_TOKEN);
+  }
+  const lines = text.split("\n").length;
+  return Math.ceil((text.length + lines * level * 2) / CHARS_PER_TOKEN);
+}
+
+// Approximate size of each node's entries in the asset manifest, keyed by node id
+function getAssetCosts({ assets }: SimplifiedDesign, format: OutputFormat): Map<string, number> {
+  const costs = new Map<string, number>();
+  const add = (nodeId: string, value: unknown) =>
+    costs.set(nodeId, (costs.get(nodeId) ?? 0) + estimateTokens(value, format, 3));
+  assets.images.forEach((image) => image.nodes.forEach((usage) => add(usage.nodeId, usage)));
+  assets.vectors.forEach((vector) => add(vector.nodeId, vector));
+  return costs;
+}
+
+/**
+ * Cut a simplified design down to a page that fits within a token budget. Nodes are taken in
+ * document order, so a page is a partial tree: nodes whose children didn't fit are listed in
+ * `continuation.truncatedNodeIds`, and the cursor resumes at the next node. The top-level nodes of
+ * every page after the first carry a `parentId` pointing into the previous pages.
+ * @param design - The full simplified design
+ * @param maxTokens - Approximate size budget for the page, including the styles it references
+ * @param cursor - Cursor from a previous page's continuation, omit for the first page
+ * @param format - Output format the page is serialized in, which sizes are estimated for
+ */
+export function paginateDesign(
+  design: SimplifiedDesign,
+  maxTokens: number,
+  cursor?: string,
+  format: OutputFormat = "json",
+): SimplifiedDesign {
+  const flat = flatten(design.nodes);
+  const state = cursor ? decodeCursor(cursor) : { offset: 0, lastModified: design.lastModified };
+  if (state.lastModified !== design.lastModified) {
+    throw new Error("The file changed since this cursor was issued, start over without a cursor");
+  }
+
+  const { nodes: _, globalVars, assets: __, ...metadata } = design;
+  // Metadata, components, variables and named styles are repeated on every page. Styles and
+  // assets are pruned to the page's nodes, so they're counted per node
+  const { styles: ___, ...sharedVars } = globalVars;
+  // A continuation may be added to the page, so room for it is kept
+  const continuation = {
+    cursor: encodeCursor({ offset: flat.length, lastModified: design.lastModified }),
+    truncatedNodeIds: [],
+  };
+  let usedTokens =
+    estimateTokens(metadata, format, 1) +
+    estimateTokens(sharedVars, format, 1) +
+    estimateTokens({ continuation }, format, 1);
+  const assetCosts = getAssetCosts(design, format);
+  const seenStyles = new Set<string>();
+  const copies = new Map<string, SimplifiedNode>();
+  const roots: SimplifiedNode[] = [];
+
+  let index = state.offset;
+  for (; index < flat.length; index++) {
+    const { node, parentId, depth } = flat[index];
+    const { children, ...fields } = node;
+
+    const newStyles = getStyleReferences(node).filter((id) => !seenStyles.has(id));
+    // Each level of children nests two levels deeper: the children array, then the node
+    const cost =
+      estimateTokens(fields, format, depth * 2) +
+      newStyles.reduce(
+        (sum, id) => sum + estimateTokens({ [id]: globalVars.styles[id] }, format, 1),
+        0,
+      ) +
+      (assetCosts.get(node.id) ?? 0) +
+      // Nodes with children keep an empty children list, and may be listed as truncated
+      (children
+        ? estimateTokens({ children: [], truncatedNodeId: node.id }, format, depth * 2)
+        : 0);
+    // Always emit at least one node so paging makes progress
+    if (usedTokens + cost > maxTokens && index > state.offset) break;
+    usedTokens += cost;
+    newStyles.forEach((id) => seenStyles.add(id));
+
+    const copy: SimplifiedNode = { ...fields };
+    if (children) copy.children = [];
+    copies.set(node.id, copy);
+    const parent = parentId ? copies.get(parentId) : undefined;
+    if (parent) {
+      parent.children!.push(copy);
+    } else {
+      // Only happens on continued pages, where the parent was sent on an earlier page
+      if (parentId) copy.parentId = parentId;
+      roots.push(copy);
+    }
+  }
+
+  const page = pruneUnreferenced({ ...design, nodes: roots });
+  if (index >= flat.length) return page;
+
+  const truncatedNodeIds = flat
+    .slice(state.offset, index)
+    .filter(({ node }) => node.children?.length !== copies.get(node.id)?.children?.length)
+    .map(({ node }) => node.id);
+
+  return {
+    ...page,
+    continuation: {
+      cursor: encodeCursor({ offset: index, lastModified: design.lastModified }),
+      truncatedNodeIds,
+    },
+  };
+}
@@ -0,0 +1,295 @@
+import type {
+  Action,
+  Easing,
+  EasingType,
+  GetFileResponse,
+  Node as FigmaDocumentNode,
+  Transition,
+  Trigger,
+} from "@figma/rest-api-spec";
+import { hasValue, isRectangle } from "~/utils/identity.js";
+
+// A top-level frame that a prototype can show, either as a screen or as an overlay
+export interface PrototypeScreen {
+  id: string;
+  name: string;
+  page: { id: string; name: string };
+  width?: number;
+  height?: number;
+  // Set on frames that are opened as overlays
+  overlay?: {
+    position?: string;
+    background?: string;
+    closeOnClickOutside?: boolean;
+  };
+}
+
+export interface PrototypeTrigger {
+  // e.g. "click", "hover", "after-delay", "key-down"
+  type: string;
+  // Milliseconds before an after-delay or mouse trigger fires
+  delay?: number;
+  keyCodes?: number[];
+}
+
+export interface PrototypeTransition {
+  // e.g. "dissolve", "smart-animate", "slide-in"
+  type: string;
+  direction?: "left" | "right" | "top" | "bottom";
+  // Milliseconds
+  duration: number;
+  // CSS timing function where one exists, otherwise Figma's preset name, e.g. "gentle"
+  easing?: string;
+}
+
+// An edge of the navigation graph
+export interface PrototypeInteraction {
+  // Screen the interaction happens on
+  screenId: string;
+  // Layer that carries the interaction, the screen itself or a layer inside it
+  sourceId: string;
+  sourceName: string;
+  trigger: PrototypeTrigger;
+  // "navigate", "overlay", "swap", "scroll-to", "change-to", "back", "close", "open-url", ...
+  action: string;
+  destinationId?: string;
+  destinationName?: string;
+  url?: string;
+  transition?: PrototypeTransition;
+  // Only runs when a condition on prototype variables holds
+  conditional?: boolean;
+}
+
+export interface PrototypeFlow {
+  name: string;
+  startScreenId: string;
+  // Screens reachable from the starting point, in the order they're first reached
+  screenIds: string[];
+  interactions: PrototypeInteraction[];
+}
+
+export interface PrototypeFlows {
+  name: string;
+  lastModified: string;
+  flows: PrototypeFlow[];
+  screens: Record<string, PrototypeScreen>;
+}
+
+// Actions that move the prototype to another screen, as opposed to acting within the current one
+const SCREEN_ACTIONS = new Set(["navigate", "overlay", "swap"]);
+
+const EASINGS: Partial<Record<EasingType, string>> = {
+  EASE_IN: "ease-in",
+  EASE_OUT: "ease-out",
+  EASE_IN_AND_OUT: "ease-in-out",
+  LINEAR: "linear",
+};
+
+// SCREAMING_SNAKE_CASE enum values to the kebab-case used in the output
+const toKebabCase = (value: string) => value.toLowerCase().replace(/_/g, "-");
+
+function convertTrigger(trigger: Trigger): PrototypeTrigger {
+  switch (trigger.type) {
+    case "AFTER_TIMEOUT":
+      return { type: "after-delay", delay: trigger.timeout };
+    case "MOUSE_ENTER":
+    case "MOUSE_LEAVE":
+    case "MOUSE_UP":
+    case "MOUSE_DOWN":
+      return { type: toKebabCase(trigger.type), delay: trigger.delay || undefined };
+    case "ON_KEY_DOWN":
+      return { type: "key-down", keyCodes: trigger.keyCodes };
+    default:
+      return { type: toKebabCase(trigger.type.replace(/^ON_/, "")) };
+  }
+}
+
+function convertEasing(easing?: Easing): string | undefined {
+  if (!easing) return undefined;
+  const bezier = easing.easingFunctionCubicBezier;
+  if (easing.type === "CUSTOM_CUBIC_BEZIER" && bezier) {
+    return `cubic-bezier(${bezier.x1}, ${bezier.y1}, ${bezier.x2}, ${bezier.y2})`;
+  }
+  return EASINGS[easing.type] ?? toKebabCase(easing.type);
+}
+
+function convertTransition(transition: Transition | null): PrototypeTransition | undefined {
+  if (!transition) return undefined;
+  return {
+    type: toKebabCase(transition.type),
+    direction:
+      "direction" in transition
+        ? (transition.direction.toLowerCase() as PrototypeTransition["direction"])
+        : undefined,
+    duration: transition.duration,
+    easing: convertEasing(transition.easing),
+  };
+}
+
+// Conditional actions are flattened into the actions of each of their branches
+function flattenActions(actions: Action[], conditional = false): [Action, boolean][] {
+  return actions.flatMap((action): [Action, boolean][] =>
+    action.type === "CONDITIONAL"
+      ? action.conditionalBlocks.flatMap((block) => flattenActions(block.actions, true))
+      : [[action, conditional]],
+  );
+}
+
+function convertAction(
+  action: Action,
+): Pick<PrototypeInteraction, "action" | "destinationId" | "url" | "transition"> {
+  switch (action.type) {
+    case "NODE":
+      return {
+        action: toKebabCase(action.navigation),
+        destinationId: action.destinationId ?? undefined,
+        transition: convertTransition(action.transition),
+      };
+    case "URL":
+      return { action: "open-url", url: action.url };
+    case "UPDATE_MEDIA_RUNTIME":
+      return { action: "update-media", destinationId: action.destinationId ?? undefined };
+    default:
+      return { action: toKebabCase(action.type) };
+  }
+}
+
+function getOverlaySettings(n: FigmaDocumentNode): PrototypeScreen["overlay"] {
+  // Returned by the API for frames used as overlays, but missing from the published types
+  const frame = n as {
+    overlayPositionType?: string;
+    overlayBackground?: { type: string; color?: { r: number; g: number; b: number; a: number } };
+    overlayBackgroundInteraction?: string;
+  };
+  if (!frame.overlayPositionType) return undefined;
+  const color = frame.overlayBackground?.color;
+  return {
+    position: toKebabCase(frame.overlayPositionType),
+    background: color
+      ? `rgba(${[color.r, color.g, color.b].map((c) => Math.round(c * 255)).join(", ")}, ${color.a})`
+      : undefined,
+    closeOnClickOutside: frame.overlayBackgroundInteraction === "CLOSE_ON_CLICK_OUTSIDE",
+  };
+}
+
+/**
+ * Collect the prototype of a raw Figma document as a navigation graph, one per flow starting
+ * point. Interactions are attributed to the top-level frame they belong to, and a flow contains
+ * every screen reachable from its starting point through navigate, overlay and swap actions.
+ * @param file - A full file response, including the interactions on every layer
+ * @param flowName - Only return the flow with this name
+ */
+export function buildPrototypeFlows(file: GetFileResponse, flowName?: string): PrototypeFlows {
+  const screens: Record<string, PrototypeScreen> = {};
+  const names = new Map<string, string>();
+  // Node id -> id of the screen containing it
+  const screenOf = new Map<string, string>();
+  const interactions: PrototypeInteraction[] = [];
+  const starts: { name: string; nodeId: string }[] = [];
+
+  const visit = (n: FigmaDocumentNode, screenId: string) => {
+    names.set(n.id, n.name);
+    screenOf.set(n.id, screenId);
+
+    if (hasValue("interactions", n) && Array.isArray(n.interactions) && n.interactions.length) {
+      for (const { trigger, actions } of n.interactions) {
+        if (!trigger || !actions) continue;
+        for (const [action, conditional] of flattenActions(actions)) {
+          interactions.push({
+            screenId,
+            sourceId: n.id,
+            sourceName: n.name,
+            trigger: convertTrigger(trigger),
+            ...convertAction(action),
+            conditional: conditional || undefined,
+          });
+        }
+      }
+    } else if (hasValue("transitionNodeID", n) && typeof n.transitionNodeID === "string") {
+      // Files older than interactions only record a click-through destination
+      interactions.push({
+        screenId,
+        sourceId: n.id,
+        sourceName: n.name,
+        trigger: { type: "click" },
+        action: "navigate",
+        destinationId: n.transitionNodeID,
+      });
+    }
+
+    if (hasValue("children", n)) n.children.forEach((child) => visit(child, screenId));
+  };
+
+  const addScreen = (n: FigmaDocumentNode, page: { id: string; name: string }) => {
+    const box = isRectangle("absoluteBoundingBox", n) ? n.absoluteBoundingBox : undefined;
+    screens[n.id] = {
+      id: n.id,
+      name: n.name,
+      page,
+      width: box?.width,
+      height: box?.height,
+      overlay: getOverlaySettings(n),
+    };
+    visit(n, n.id);
+  };
+
+  for (const page of file.document.children) {
+    const pageRef = { id: page.id, name: page.name };
+    starts.push(...page.flowStartingPoints);
+    if (!page.flowStartingPoints.length && page.prototypeStartNodeID) {
+      starts.push({ name: page.name, nodeId: page.prototypeStartNodeID });
+    }
+    for (const n of page.children) {
+      // Sections group screens without being screens themselves
+      if (n.type === "SECTION") {
+        n.children.forEach((child) => addScreen(child, pageRef));
+      } else {
+        addScreen(n, pageRef);
+      }
+    }
+  }
+
+  for (const interaction of interactions) {
+    if (interaction.destinationId) {
+      interaction.destinationName = names.get(interaction.destinationId);
+    }
+  }
+
+  const selected = flowName ? starts.filter((start) => start.name === flowName) : starts;
+  if (flowName && !selected.length) {
+    const available = starts.map((start) => start.name).join(", ") || "none";
+    throw new Error(`No prototype flow named "${flowName}", available flows: ${available}`);
+  }
+
+  const flows = selected.map(({ name, nodeId }): PrototypeFlow => {
+    const startScreenId = screenOf.get(nodeId) ?? nodeId;
+    const reached = new Set([startScreenId]);
+    const queue = [startScreenId];
+    while (queue.length) {
+      const screenId = queue.shift()!;
+      for (const interaction of interactions) {
+        if (interaction.screenId !== screenId || !SCREEN_ACTIONS.has(interaction.action)) continue;
+        const destination = interaction.destinationId && screenOf.get(interaction.destinationId);
+        if (destination && !reached.has(destination)) {
+          reached.add(destination);
+          queue.push(destination);
+        }
+      }
+    }
+    return {
+      name,
+      startScreenId,
+      screenIds: [...reached],
+      interactions: interactions.filter((interaction) => reached.has(interaction.screenId)),
+    };
+  });
+
+  // Only describe the screens that take part in a flow
+  const used = new Set(flows.flatMap((flow) => flow.screenIds));
+  return {
+    name: file.name,
+    lastModified: file.lastModified,
+    flows,
+    screens: Object.fromEntries(Object.entries(screens).filter(([id]) => used.has(id))),
+  };
+}
@@ -0,0 +1,130 @@
+import type { GetFileResponse, Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import type { BoundingBox } from "~/services/simplify-node-response.js";
+import { hasValue, isRectangle } from "~/utils/identity.js";
+
+export interface NodeSearchFilters {
+  // Glob such as "Button/*" or a regular expression such as "/^icon-/i"; globs are case-insensitive
+  name?: string;
+  types?: string[];
+  // Case-insensitive substring of a TEXT node's characters
+  text?: string;
+  // Glob or regular expression matched against an instance's component or component set name
+  componentName?: string;
+  // Page name or id
+  page?: string;
+  limit?: number;
+}
+
+export interface NodeSearchResult {
+  id: string;
+  name: string;
+  type: string;
+  page: { id: string; name: string };
+  // Names of the ancestors between the page and the node, outermost first
+  path: string[];
+  boundingBox?: BoundingBox;
+  text?: string;
+  componentName?: string;
+}
+
+export interface NodeSearchResponse {
+  results: NodeSearchResult[];
+  // True when more nodes matched than the limit allowed
+  truncated: boolean;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Turn a filter pattern into a regular expression. Patterns wrapped in slashes are used as-is,
+ * anything else is a glob where * matches any run of characters and ? a single one.
+ */
+export function toPattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      // Global and sticky patterns keep their position between test() calls, skipping matches
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+    } catch (error) {
+      throw new Error(`Invalid regular expression ${pattern}: ${(error as Error).message}`);
+    }
+  }
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+}
+
+/**
+ * The names an instance can be searched by: the component set's name for variants, which are
+ * named like "Size=Large, State=Hover", followed by the component's own name
+ */
+function getComponentNames(file: GetFileResponse, n: FigmaDocumentNode): string[] {
+  if (n.type !== "INSTANCE") return [];
+  const component = file.components[n.componentId];
+  if (!component) return [];
+  const componentSet = component.componentSetId
+    ? file.componentSets[component.componentSetId]
+    : undefined;
+  return componentSet ? [componentSet.name, component.name] : [component.name];
+}
+
+/**
+ * Find the nodes of a raw Figma document that match every given filter, in document order
+ */
+export function searchNodes(file: GetFileResponse, filters: NodeSearchFilters): NodeSearchResponse {
+  const namePattern = filters.name ? toPattern(filters.name) : undefined;
+  const componentPattern = filters.componentName ? toPattern(filters.componentName) : undefined;
+  const types = filters.types?.map((type) => type.toUpperCase());
+  const text = filters.text?.toLowerCase();
+  const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT;
+
+  const pages = file.document.children.filter(
+    (page) => !filters.page || page.id === filters.page || page.name === filters.page,
+  );
+  if (filters.page && !pages.length) {
+    const available = file.document.children.map((page) => page.name).join(", ");
+    throw new Error(`No page named "${filters.page}", available pages: ${available}`);
+  }
+
+  const results: NodeSearchResult[] = [];
+  let truncated = false;
+
+  const visit = (n: FigmaDocumentNode, page: { id: string; name: string }, path: string[]) => {
+    if (truncated) return;
+
+    const componentNames = getComponentNames(file, n);
+    const characters = n.type === "TEXT" ? n.characters : undefined;
+    const matches =
+      (!namePattern || namePattern.test(n.name)) &&
+      (!types || types.includes(n.type)) &&
+      (!text || !!characters?.toLowerCase().includes(text)) &&
+      (!componentPattern || componentNames.some((name) => componentPattern.test(name)));
+
+    if (matches) {
+      if (results.length === limit) {
+        truncated = true;
+        return;
+      }
+      results.push({
+        id: n.id,
+        name: n.name,
+        type: n.type,
+        page,
+        path,
+        boundingBox: isRectangle("absoluteBoundingBox", n) ? n.absoluteBoundingBox : undefined,
+        text: characters,
+        componentName: componentNames[0],
+      });
+    }
+
+    if (hasValue("children", n)) {
+      const childPath = [...path, n.name];
+      n.children.forEach((child) => visit(child, page, childPath));
+    }
+  };
+
+  for (const page of pages) {
+    page.children.forEach((child) => visit(child, { id: page.id, name: page.name }, []));
+  }
+
+  return { results, truncated };
+}
@@ -1,23 +1,76 @@
-import { SimplifiedLayout, buildSimplifiedLayout } from "~/transformers/layout.js";
+import {
+  SimplifiedLayout,
+  SimplifiedLayoutGrid,
+  buildSimplifiedLayout,
+  buildSimplifiedLayoutGrids,
+} from "~/transformers/layout.js";
 import type {
+  BlendMode,
   GetFileNodesResponse,
+  Measurement,
   Node as FigmaDocumentNode,
   Paint,
   Vector,
   GetFileResponse,
+  Style,
+  StyleType,
 } from "@figma/rest-api-spec";
-import { hasValue, isRectangleCornerRadii, isTruthy } from "~/utils/identity.js";
-import { removeEmptyKeys, generateVarId, StyleId, parsePaint, isVisible } from "~/utils/common.js";
+import {
+  hasValue,
+  isRectangle,
+  isRectangleCornerRadii,
+  isTruthy,
+  isVector,
+} from "~/utils/identity.js";
+import {
+  removeEmptyKeys,
+  generateVarId,
+  StyleId,
+  parsePaint,
+  ParsePaintOptions,
+  isVisible,
+  convertBlendMode,
+} from "~/utils/common.js";
 import { buildSimplifiedStrokes, SimplifiedStroke } from "~/transformers/style.js";
+import {
+  buildAnnotations,
+  collectMeasurements,
+  indexMeasurements,
+  SimplifiedAnnotation,
+  SimplifiedMeasurement,
+} from "~/transformers/dev-mode.js";
 import { buildSimplifiedEffects, SimplifiedEffects } from "~/transformers/effects.js";
+import { buildSimplifiedTextStyle, buildTextBoxStyle, buildTextRuns } from "~/transformers/text.js";
+import {
+  addImageAssets,
+  addVectorAsset,
+  AssetCollector,
+  createAssetCollector,
+  SimplifiedAssets,
+} from "~/transformers/assets.js";
+import {
+  buildSimplifiedComponentInstance,
+  ComponentRegistry,
+  SimplifiedComponentDefinition,
+  SimplifiedComponentInstance,
+  SimplifiedComponentSetDefinition,
+  simplifyComponents,
+  simplifyComponentSets,
+} from "~/transformers/component.js";
+import {
+  buildAppearanceVariableBindings,
+  buildLayoutVariableBindings,
+  buildTextVariableBindings,
+  createVariableResolver,
+  SimplifiedVariable,
+  VariableBindings,
+  VariableRegistry,
+  VariableResolver,
+} from "~/transformers/variables.js";
 /**
  * TODO ITEMS
  *
  * - Improve layout handling—translate from Figma vocabulary to CSS
- * - Pull image fills/vectors out to top level for better AI visibility
- *   ? Implement vector parents again for proper downloads
- * ? Look up existing styles in new MCP endpoint—Figma supports individual lookups without enterprise /v1/styles/:key
- * ? Parse out and save .cursor/rules/design-tokens file on command
  **/
 
 // -------------------- SIMPLIFIED STRUCTURES --------------------
@@ -26,11 +79,17 @@ export type TextStyle = Partial<{
   fontFamily: string;
   fontWeight: number;
   fontSize: number;
+  italic: boolean;
   lineHeight: string;
   letterSpacing: string;
   textCase: string;
+  textDecoration: string;
   textAlignHorizontal: string;
   textAlignVertical: string;
+  textAutoResize: "WIDTH_AND_HEIGHT" | "HEIGHT";
+  textTruncation: "ENDING";
+  maxLines: number;
+  variables: VariableBindings;
 }>;
 export type StrokeWeights = {
   top: number;
@@ -42,44 +101,94 @@ type StyleTypes =
   | TextStyle
   | SimplifiedFill[]
   | SimplifiedLayout
+  | SimplifiedLayoutGrid[]
   | SimplifiedStroke
   | SimplifiedEffects
   | string;
+export interface NamedStyle {
+  key: string;
+  type: StyleType;
+  description?: string;
+  remote?: boolean;
+}
 type GlobalVars = {
-  styles: Record<StyleId, StyleTypes>;
+  // Keyed by the Figma style name when a node uses a shared style, otherwise by a generated StyleId
+  styles: Record<StyleId | string, StyleTypes>;
+  // Metadata for the shared Figma styles referenced above, keyed by style name
+  namedStyles?: Record<string, NamedStyle>;
+  // Figma variables referenced by the parsed nodes, keyed by token name
+  variables?: Record<string, SimplifiedVariable>;
 };
 export interface SimplifiedDesign {
   name: string;
   lastModified: string;
   thumbnailUrl: string;
   nodes: SimplifiedNode[];
+  components: Record<string, SimplifiedComponentDefinition>;
+  componentSets: Record<string, SimplifiedComponentSetDefinition>;
   globalVars: GlobalVars;
+  // Raster image fills and SVG-exportable nodes, ready to pass to download_figma_images
+  assets: SimplifiedAssets;
+  // Set when the nodes were cut off to fit a size budget, see paginateDesign
+  continuation?: Continuation;
+}
+
+export interface Continuation {
+  // Opaque cursor for fetching the next page with the same request parameters
+  cursor: string;
+  // Nodes on this page whose children were elided, in whole or in part
+  truncatedNodeIds: string[];
 }
 
-export interface SimplifiedNode {
+export interface SimplifiedNode extends SimplifiedComponentInstance {
   id: string;
   name: string;
   type: string; // e.g. FRAME, TEXT, INSTANCE, RECTANGLE, etc.
+  // Only set on the top-level nodes of a continued page, to attach them to the previous pages' tree
+  parentId?: string;
   // geometry
   boundingBox?: BoundingBox;
   // text
   text?: string;
   textStyle?: string;
+  textRuns?: SimplifiedTextRun[];
   // appearance
   fills?: string;
   styles?: string;
   strokes?: string;
   effects?: string;
   opacity?: number;
+  // CSS mix-blend-mode, e.g. "multiply"
+  mixBlendMode?: string;
   borderRadius?: string;
+  // Set on nodes that mask their siblings; "vector" clips to the shape, the others to its pixels
+  mask?: { mode: "alpha" | "luminance" | "vector" };
+  // Id of the sibling mask node that clips this node
+  maskedBy?: string;
+  // design tokens bound to radius and opacity
+  variables?: VariableBindings;
   // layout & alignment
   layout?: string;
+  layoutGrids?: string;
+  // Dev Mode notes and pinned measurements starting from this node
+  annotations?: SimplifiedAnnotation[];
+  measurements?: SimplifiedMeasurement[];
   // backgroundColor?: ColorValue; // Deprecated by Figma API
   // for rect-specific strokes, etc.
   // children
   children?: SimplifiedNode[];
 }
 
+// A span of a text node with its own style overrides, link or list marker
+export interface SimplifiedTextRun {
+  text: string;
+  textStyle?: string;
+  fills?: string;
+  link?: { url?: string; nodeId?: string };
+  listType?: "ordered" | "unordered";
+  indent?: number;
+}
+
 export interface BoundingBox {
   x: number;
   y: number;
@@ -96,12 +205,27 @@ export type SimplifiedFill =
       rgba?: string;
       opacity?: number;
       imageRef?: string;
+      // For PATTERN paints, the node whose render is repeated
+      sourceNodeId?: string;
       scaleMode?: string;
+      scalingFactor?: number;
+      backgroundSize?: string;
+      backgroundPosition?: string;
+      backgroundRepeat?: "no-repeat" | "repeat";
+      // CSS gradient function, e.g. "linear-gradient(90deg, #FF0000 0%, #0000FF 100%)"
+      gradient?: string;
       gradientHandlePositions?: Vector[];
       gradientStops?: {
         position: number;
         color: ColorValue | string;
+        variable?: string;
       }[];
+      // Token name of the variable bound to this paint's color
+      variable?: string;
+      // Token names bound to gradient stop colors, keyed by the stop's index in `gradient`
+      variables?: Record<string, string>;
+      // CSS background-blend-mode, e.g. "multiply"
+      blendMode?: string;
     }
   | CSSRGBAColor
   | CSSHexColor;
@@ -111,29 +235,101 @@ export interface ColorValue {
   opacity: number;
 }
 
+export type ParseOptions = {
+  /**
+   * If true, gradient fills keep Figma's handle positions and stops next to the CSS gradient string
+   */
+  rawGradients?: boolean;
+  /**
+   * Dev Mode measurements of the pages holding the parsed nodes, which node responses don't
+   * include. Only those between two parsed nodes are kept
+   */
+  measurements?: Measurement[];
+};
+
+// State shared by every node while parsing a single response
+type ParseContext = {
+  options: ParseOptions;
+  globalVars: GlobalVars;
+  // Serialized style value -> variable ID, so lookups don't scan every existing style
+  styleIndex: Map<string, StyleId | string>;
+  resolveVariable: VariableResolver;
+  // Shared styles defined in or imported into the file, keyed by style id
+  fileStyles: Record<string, Style>;
+  assetCollector: AssetCollector;
+  // Dev Mode measurements keyed by the node they start from
+  measurements: Map<string, SimplifiedMeasurement[]>;
+} & ComponentRegistry;
+
+function collectNodeIds(nodes: FigmaDocumentNode[], ids = new Set<string>()): Set<string> {
+  for (const n of nodes) {
+    ids.add(n.id);
+    if (hasValue("children", n)) collectNodeIds(n.children, ids);
+  }
+  return ids;
+}
+
 // ---------------------- PARSING ----------------------
-export function parseFigmaResponse(data: GetFileResponse | GetFileNodesResponse): SimplifiedDesign {
+export function parseFigmaResponse(
+  data: GetFileResponse | GetFileNodesResponse,
+  variableRegistry?: VariableRegistry,
+  options: ParseOptions = {},
+): SimplifiedDesign {
   const { name, lastModified, thumbnailUrl } = data;
   let nodes: FigmaDocumentNode[];
+  let rawComponents: GetFileResponse["components"] = {};
+  let rawComponentSets: GetFileResponse["componentSets"] = {};
+  let fileStyles: GetFileResponse["styles"] = {};
   if ("document" in data) {
     nodes = Object.values(data.document.children);
+    rawComponents = data.components ?? {};
+    rawComponentSets = data.componentSets ?? {};
+    fileStyles = data.styles ?? {};
   } else {
-    nodes = Object.values(data.nodes).map((n) => n.document);
+    // Each requested node comes with its own component and style maps, so merge them into one registry
+    const nodeResponses = Object.values(data.nodes);
+    nodes = nodeResponses.map((n) => n.document);
+    for (const nodeResponse of nodeResponses) {
+      Object.assign(rawComponents, nodeResponse.components);
+      Object.assign(rawComponentSets, nodeResponse.componentSets);
+      Object.assign(fileStyles, nodeResponse.styles);
+    }
   }
-  let globalVars: GlobalVars = {
-    styles: {},
+  const usedVariables: Record<string, SimplifiedVariable> = {};
+  const context: ParseContext = {
+    options,
+    globalVars: {
+      styles: {},
+    },
+    styleIndex: new Map(),
+    resolveVariable: createVariableResolver(variableRegistry, usedVariables),
+    fileStyles,
+    components: simplifyComponents(rawComponents),
+    componentSets: simplifyComponentSets(rawComponentSets),
+    assetCollector: createAssetCollector(),
+    measurements: indexMeasurements(
+      [...collectMeasurements(nodes), ...(options.measurements ?? [])],
+      collectNodeIds(nodes),
+    ),
   };
   const simplifiedNodes: SimplifiedNode[] = nodes
     .filter(isVisible)
-    .map((n) => parseNode(globalVars, n))
+    .map((n) => parseNode(context, n))
     .filter((child) => child !== null && child !== undefined);
 
+  if (Object.keys(usedVariables).length) {
+    context.globalVars.variables = usedVariables;
+  }
+
   return {
     name,
     lastModified,
     thumbnailUrl: thumbnailUrl || "",
     nodes: simplifiedNodes,
-    globalVars,
+    components: context.components,
+    componentSets: context.componentSets,
+    globalVars: context.globalVars,
+    assets: context.assetCollector.assets,
   };
 }
 
@@ -157,34 +353,142 @@ const findNodeById = (id: string, nodes: SimplifiedNode[]): SimplifiedNode | und
 
 /**
  * Find or create global variables
- * @param globalVars - Global variables object
+ * @param context - Parse context holding global variables and the style index
  * @param value - Value to store
  * @param prefix - Variable ID prefix
  * @returns Variable ID
  */
-function findOrCreateVar(globalVars: GlobalVars, value: any, prefix: string): StyleId {
-  // Check if the same value already exists
-  const [existingVarId] =
-    Object.entries(globalVars.styles).find(
-      ([_, existingValue]) => JSON.stringify(existingValue) === JSON.stringify(value),
-    ) ?? [];
+function findOrCreateVar(context: ParseContext, value: any, prefix: string): StyleId | string {
+  const { globalVars, styleIndex } = context;
+  const serialized = JSON.stringify(value);
 
+  // Check if the same value already exists
+  const existingVarId = styleIndex.get(serialized);
   if (existingVarId) {
-    return existingVarId as StyleId;
+    return existingVarId;
   }
 
-  // Create a new variable if it doesn't exist
-  const varId = generateVarId(prefix);
+  // Create a new variable if it doesn't exist. IDs are derived from the value, so on the rare hash
+  // collision with a different value, rehash with a counter until a free ID is found.
+  let varId = generateVarId(serialized, prefix);
+  for (let i = 1; varId in globalVars.styles; i++) {
+    varId = generateVarId(`${serialized}#${i}`, prefix);
+  }
   globalVars.styles[varId] = value;
+  styleIndex.set(serialized, varId);
   return varId;
 }
 
+/**
+ * Store a value under the name of the shared Figma style the node uses for it, e.g. "Heading/H1".
+ * Falls back to a generated id for ad-hoc values that don't come from a shared style.
+ * @param context - Parse context holding global variables and the file's styles
+ * @param n - The node whose `styles` map is checked
+ * @param styleKeys - Keys in the node's `styles` map that refer to this value, e.g. ["fill", "fills"]
+ * @param value - Value to store
+ * @param prefix - Variable ID prefix used for the fallback
+ * @returns Style name or generated variable ID
+ */
+function findOrCreateNamedVar(
+  context: ParseContext,
+  n: FigmaDocumentNode,
+  styleKeys: string[],
+  value: any,
+  prefix: string,
+): StyleId | string {
+  const { globalVars, fileStyles, styleIndex } = context;
+  const styleId = hasValue("styles", n)
+    ? styleKeys.map((key) => (n.styles as Record<string, string>)[key]).find(isTruthy)
+    : undefined;
+  const style = styleId ? fileStyles[styleId] : undefined;
+  if (!style) {
+    return findOrCreateVar(context, value, prefix);
+  }
+
+  // Nodes can override parts of a shared style (e.g. text alignment), so differing values under the
+  // same style name get a numbered suffix instead of overwriting each other
+  const serialized = JSON.stringify(value);
+  let varName = style.name;
+  for (let i = 2; varName in globalVars.styles; i++) {
+    if (JSON.stringify(globalVars.styles[varName]) === serialized) break;
+    varName = `${style.name} (${i})`;
+  }
+  globalVars.styles[varName] = value;
+  if (!styleIndex.has(serialized)) {
+    styleIndex.set(serialized, varName);
+  }
+
+  globalVars.namedStyles ??= {};
+  globalVars.namedStyles[style.name] ??= {
+    key: style.key,
+    type: style.styleType,
+    description: style.description || undefined,
+    remote: style.remote || undefined,
+  };
+  return varName;
+}
+
+// Prefer the unrotated size when the response includes it; fall back to the bounding box
+function getNodeSize(n: FigmaDocumentNode): { width: number; height: number } | undefined {
+  if (hasValue("size", n, isVector)) {
+    return { width: n.size.x, height: n.size.y };
+  }
+  if (isRectangle("absoluteBoundingBox", n)) {
+    return { width: n.absoluteBoundingBox.width, height: n.absoluteBoundingBox.height };
+  }
+  return undefined;
+}
+
+// Shapes that only make sense exported as part of an SVG
+const VECTOR_TYPES = new Set(["VECTOR", "BOOLEAN_OPERATION", "STAR", "REGULAR_POLYGON"]);
+const SHAPE_TYPES = new Set([...VECTOR_TYPES, "LINE", "ELLIPSE", "RECTANGLE"]);
+const CONTAINER_TYPES = new Set(["GROUP", "FRAME", "COMPONENT", "INSTANCE"]);
+// Containers larger than this are layout or illustrations, not icons
+const ICON_MAX_SIZE = 64;
+
+function hasImageFill(n: FigmaDocumentNode): boolean {
+  return hasValue("fills", n) && Array.isArray(n.fills) && n.fills.some((f) => f.type === "IMAGE");
+}
+
+/**
+ * Whether a node is an icon that should be exported as one SVG rather than
+ * described shape by shape: a boolean operation, or a container whose visible descendants are all
+ * shapes, at least one of them a true vector. The container must also be small.
+ */
+function isIconSubtree(n: FigmaDocumentNode): boolean {
+  if (n.type === "BOOLEAN_OPERATION") return true;
+  if (!CONTAINER_TYPES.has(n.type) || !hasValue("children", n)) return false;
+
+  const size = getNodeSize(n);
+  if (!size || size.width > ICON_MAX_SIZE || size.height > ICON_MAX_SIZE) return false;
+
+  let hasVector = false;
+  const onlyShapes = (node: FigmaDocumentNode): boolean => {
+    if (hasImageFill(node)) return false;
+    if (VECTOR_TYPES.has(node.type)) hasVector = true;
+    if (SHAPE_TYPES.has(node.type)) return true;
+    if (node.type !== "GROUP" && node.type !== "FRAME") return false;
+    return hasValue("children", node) && node.children.filter(isVisible).every(onlyShapes);
+  };
+  const visibleChildren = n.children.filter(isVisible);
+  return (
+    visibleChildren.length > 0 && !hasImageFill(n) && visibleChildren.every(onlyShapes) && hasVector
+  );
+}
+
 function parseNode(
-  globalVars: GlobalVars,
+  context: ParseContext,
   n: FigmaDocumentNode,
   parent?: FigmaDocumentNode,
 ): SimplifiedNode | null {
+  const { resolveVariable, assetCollector } = context;
   const { id, name, type } = n;
+  const size = getNodeSize(n);
+  const paintOptions: ParsePaintOptions = {
+    resolveVariable,
+    size,
+    rawGradients: context.options.rawGradients,
+  };
 
   const simplified: SimplifiedNode = {
     id,
@@ -192,49 +496,71 @@ function parseNode(
     type,
   };
 
+  // components, variants and instances
+  if (type === "INSTANCE" || type === "COMPONENT" || type === "COMPONENT_SET") {
+    Object.assign(simplified, buildSimplifiedComponentInstance(n, context));
+  }
+
   // text
   if (hasValue("style", n) && Object.keys(n.style).length) {
-    const style = n.style;
-    const textStyle = {
-      fontFamily: style.fontFamily,
-      fontWeight: style.fontWeight,
-      fontSize: style.fontSize,
-      lineHeight:
-        style.lineHeightPx && style.fontSize
-          ? `${style.lineHeightPx / style.fontSize}em`
-          : undefined,
-      letterSpacing:
-        style.letterSpacing && style.letterSpacing !== 0 && style.fontSize
-          ? `${(style.letterSpacing / style.fontSize) * 100}%`
-          : undefined,
-      textCase: style.textCase,
-      textAlignHorizontal: style.textAlignHorizontal,
-      textAlignVertical: style.textAlignVertical,
+    const textStyle: TextStyle = {
+      ...buildSimplifiedTextStyle(n.style),
+      ...buildTextBoxStyle(n.style),
     };
-    simplified.textStyle = findOrCreateVar(globalVars, textStyle, "style");
+    const textVariables = buildTextVariableBindings(n, resolveVariable);
+    if (Object.keys(textVariables).length) {
+      textStyle.variables = textVariables;
+    }
+    simplified.textStyle = findOrCreateNamedVar(context, n, ["text"], textStyle, "style");
+  }
+
+  // mixed-style text, links and lists
+  const textRuns = buildTextRuns(n);
+  if (textRuns) {
+    simplified.textRuns = textRuns.map(({ style, fills, ...run }) => {
+      const simplifiedRun: SimplifiedTextRun = run;
+      if (style && Object.keys(removeEmptyKeys(style)).length) {
+        simplifiedRun.textStyle = findOrCreateVar(context, style, "style");
+      }
+      if (fills) {
+        const runFills = fills.map((paint) => parsePaint(paint, paintOptions));
+        simplifiedRun.fills = findOrCreateVar(context, runFills, "fill");
+      }
+      return simplifiedRun;
+    });
   }
 
   // fills & strokes
   if (hasValue("fills", n) && Array.isArray(n.fills) && n.fills.length) {
     // const fills = simplifyFills(n.fills.map(parsePaint));
-    const fills = n.fills.map(parsePaint);
-    simplified.fills = findOrCreateVar(globalVars, fills, "fill");
+    const fills = n.fills.map((paint) => parsePaint(paint, paintOptions));
+    simplified.fills = findOrCreateNamedVar(context, n, ["fill", "fills"], fills, "fill");
+    addImageAssets(assetCollector, n, size);
   }
 
-  const strokes = buildSimplifiedStrokes(n);
+  const strokes = buildSimplifiedStrokes(n, paintOptions);
   if (strokes.colors.length) {
-    simplified.strokes = findOrCreateVar(globalVars, strokes, "stroke");
+    simplified.strokes = findOrCreateNamedVar(context, n, ["stroke", "strokes"], strokes, "stroke");
   }
 
   const effects = buildSimplifiedEffects(n);
   if (Object.keys(effects).length) {
-    simplified.effects = findOrCreateVar(globalVars, effects, "effect");
+    simplified.effects = findOrCreateNamedVar(context, n, ["effect", "effects"], effects, "effect");
   }
 
   // Process layout
   const layout = buildSimplifiedLayout(n, parent);
+  const layoutVariables = buildLayoutVariableBindings(n, resolveVariable);
+  if (Object.keys(layoutVariables).length) {
+    layout.variables = layoutVariables;
+  }
   if (Object.keys(layout).length > 1) {
-    simplified.layout = findOrCreateVar(globalVars, layout, "layout");
+    simplified.layout = findOrCreateVar(context, layout, "layout");
+  }
+
+  const layoutGrids = buildSimplifiedLayoutGrids(n);
+  if (layoutGrids.length) {
+    simplified.layoutGrids = findOrCreateNamedVar(context, n, ["grid"], layoutGrids, "grid");
   }
 
   // Keep other simple properties directly
@@ -243,11 +569,27 @@ function parseNode(
   }
 
   // border/corner
+  const appearanceVariables = buildAppearanceVariableBindings(n, resolveVariable);
+  if (Object.keys(appearanceVariables).length) {
+    simplified.variables = appearanceVariables;
+  }
+
+  simplified.annotations = buildAnnotations(n);
+  simplified.measurements = context.measurements.get(n.id);
 
   // opacity
   if (hasValue("opacity", n) && typeof n.opacity === "number" && n.opacity !== 1) {
     simplified.opacity = n.opacity;
   }
+  if (hasValue("blendMode", n)) {
+    simplified.mixBlendMode = convertBlendMode(n.blendMode as BlendMode);
+  }
+  if (hasValue("isMask", n) && n.isMask) {
+    const maskType = hasValue("maskType", n) ? n.maskType : undefined;
+    simplified.mask = {
+      mode: maskType === "LUMINANCE" ? "luminance" : maskType === "VECTOR" ? "vector" : "alpha",
+    };
+  }
 
   if (hasValue("cornerRadius", n) && typeof n.cornerRadius === "number") {
     simplified.borderRadius = `${n.cornerRadius}px`;
@@ -256,12 +598,28 @@ function parseNode(
     simplified.borderRadius = `${n.rectangleCornerRadii[0]}px ${n.rectangleCornerRadii[1]}px ${n.rectangleCornerRadii[2]}px ${n.rectangleCornerRadii[3]}px`;
   }
 
+  // Icons are exported as a single SVG, so their shapes don't need describing
+  if (isIconSubtree(n)) {
+    simplified.type = "IMAGE-SVG";
+    addVectorAsset(assetCollector, n, size);
+    return removeEmptyKeys(simplified);
+  }
+
   // Recursively process child nodes
   if (hasValue("children", n) && n.children.length > 0) {
     let children = n.children
       .filter(isVisible)
-      .map((child) => parseNode(globalVars, child, n))
+      .map((child) => parseNode(context, child, n))
       .filter((child) => child !== null && child !== undefined);
+    // Children are ordered bottom to top, and a mask clips the siblings above it up to the next mask
+    let maskId: string | undefined;
+    for (const child of children) {
+      if (child.mask) {
+        maskId = child.id;
+      } else if (maskId) {
+        child.maskedBy = maskId;
+      }
+    }
     if (children.length) {
       simplified.children = children;
     }
@@ -270,6 +628,7 @@ function parseNode(
   // Convert VECTOR to IMAGE
   if (type === "VECTOR") {
     simplified.type = "IMAGE-SVG";
+    addVectorAsset(assetCollector, n, size);
   }
 
   return removeEmptyKeys(simplified);
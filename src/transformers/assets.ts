@@ -0,0 +1,107 @@
+import type { Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import { hasValue } from "~/utils/identity.js";
+
+export interface ImageAssetUsage {
+  nodeId: string;
+  scaleMode: string;
+  // Size of the box the image fills; the API doesn't expose the image's own pixel size
+  width?: number;
+  height?: number;
+}
+
+export interface ImageAsset {
+  imageRef: string;
+  // Suggested name for download_figma_images, without an extension: the download adds the one of
+  // the uploaded image, which may be a PNG, JPEG or GIF
+  fileName: string;
+  nodes: ImageAssetUsage[];
+}
+
+export interface VectorAsset {
+  nodeId: string;
+  name: string;
+  // Suggested name for download_figma_images
+  fileName: string;
+  width?: number;
+  height?: number;
+}
+
+export interface SimplifiedAssets {
+  images: ImageAsset[];
+  vectors: VectorAsset[];
+}
+
+type NodeSize = { width: number; height: number } | undefined;
+
+// Parse-time state for building SimplifiedAssets without rescanning it for every node
+export type AssetCollector = {
+  assets: SimplifiedAssets;
+  imagesByRef: Map<string, ImageAsset>;
+  fileNames: Set<string>;
+};
+
+export function createAssetCollector(): AssetCollector {
+  return { assets: { images: [], vectors: [] }, imagesByRef: new Map(), fileNames: new Set() };
+}
+
+function toFileBaseName(name: string): string {
+  return (
+    name
+      .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+      .replace(/[^a-zA-Z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .toLowerCase() || "asset"
+  );
+}
+
+// Suggested file names are unique across images and vectors so they can share a directory
+function suggestFileName(collector: AssetCollector, name: string, extension?: string): string {
+  const baseName = toFileBaseName(name);
+  const suffix = extension ? `.${extension}` : "";
+  let fileName = `${baseName}${suffix}`;
+  for (let i = 2; collector.fileNames.has(fileName); i++) {
+    fileName = `${baseName}-${i}${suffix}`;
+  }
+  collector.fileNames.add(fileName);
+  return fileName;
+}
+
+/**
+ * Record the raster image fills of a node, grouping nodes that share the same image
+ */
+export function addImageAssets(collector: AssetCollector, n: FigmaDocumentNode, size: NodeSize) {
+  if (!hasValue("fills", n) || !Array.isArray(n.fills)) return;
+
+  for (const paint of n.fills) {
+    if (paint.type !== "IMAGE" || !paint.imageRef || paint.visible === false) continue;
+    let asset = collector.imagesByRef.get(paint.imageRef);
+    if (!asset) {
+      asset = {
+        imageRef: paint.imageRef,
+        fileName: suggestFileName(collector, n.name),
+        nodes: [],
+      };
+      collector.imagesByRef.set(paint.imageRef, asset);
+      collector.assets.images.push(asset);
+    }
+    asset.nodes.push({
+      nodeId: n.id,
+      scaleMode: paint.scaleMode,
+      width: size?.width,
+      height: size?.height,
+    });
+  }
+}
+
+/**
+ * Record a node that is exported as an SVG
+ */
+export function addVectorAsset(collector: AssetCollector, n: FigmaDocumentNode, size: NodeSize) {
+  collector.assets.vectors.push({
+    nodeId: n.id,
+    name: n.name,
+    fileName: suggestFileName(collector, n.name, "svg"),
+    width: size?.width,
+    height: size?.height,
+  });
+}
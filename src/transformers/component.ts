@@ -0,0 +1,169 @@
+import type {
+  Component,
+  ComponentPropertyDefinition,
+  ComponentPropertyType,
+  ComponentSet,
+  Node as FigmaDocumentNode,
+} from "@figma/rest-api-spec";
+import { hasValue } from "~/utils/identity.js";
+
+export interface SimplifiedComponentDefinition {
+  id: string;
+  key: string;
+  name: string;
+  description?: string;
+  componentSetId?: string;
+  remote?: boolean;
+}
+
+export interface SimplifiedComponentSetDefinition {
+  id: string;
+  key: string;
+  name: string;
+  description?: string;
+  remote?: boolean;
+}
+
+export interface ComponentProperty {
+  name: string;
+  type: ComponentPropertyType;
+  value: string | boolean;
+  // For INSTANCE_SWAP properties, the name of the component the value points to
+  componentName?: string;
+}
+
+export interface ComponentPropertyDefinitionValue {
+  type: ComponentPropertyType;
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+}
+
+export interface SimplifiedComponentInstance {
+  componentId?: string;
+  componentName?: string;
+  componentSetId?: string;
+  componentSetName?: string;
+  componentProperties?: ComponentProperty[];
+  componentPropertyDefinitions?: Record<string, ComponentPropertyDefinitionValue>;
+  overrides?: { id: string; fields: string[] }[];
+}
+
+export type ComponentRegistry = {
+  components: Record<string, SimplifiedComponentDefinition>;
+  componentSets: Record<string, SimplifiedComponentSetDefinition>;
+};
+
+export function simplifyComponents(
+  components: Record<string, Component>,
+): Record<string, SimplifiedComponentDefinition> {
+  return Object.fromEntries(
+    Object.entries(components).map(([id, comp]) => [
+      id,
+      {
+        id,
+        key: comp.key,
+        name: comp.name,
+        description: comp.description || undefined,
+        componentSetId: comp.componentSetId,
+        remote: comp.remote || undefined,
+      },
+    ]),
+  );
+}
+
+export function simplifyComponentSets(
+  componentSets: Record<string, ComponentSet>,
+): Record<string, SimplifiedComponentSetDefinition> {
+  return Object.fromEntries(
+    Object.entries(componentSets).map(([id, set]) => [
+      id,
+      {
+        id,
+        key: set.key,
+        name: set.name,
+        description: set.description || undefined,
+        remote: set.remote || undefined,
+      },
+    ]),
+  );
+}
+
+// Figma suffixes non-variant property names with a unique id, e.g. "Label#1234:5"
+function stripPropertyId(name: string): string {
+  const hashIndex = name.lastIndexOf("#");
+  return hashIndex > 0 ? name.slice(0, hashIndex) : name;
+}
+
+function simplifyPropertyDefinitions(
+  definitions: Record<string, ComponentPropertyDefinition>,
+): Record<string, ComponentPropertyDefinitionValue> {
+  return Object.fromEntries(
+    Object.entries(definitions).map(([name, def]) => [
+      stripPropertyId(name),
+      {
+        type: def.type,
+        defaultValue: def.defaultValue,
+        variantOptions: def.variantOptions,
+      },
+    ]),
+  );
+}
+
+/**
+ * Build the component-related fields for INSTANCE, COMPONENT and COMPONENT_SET nodes,
+ * resolving component and component set ids to their names using the file's registry
+ */
+export function buildSimplifiedComponentInstance(
+  n: FigmaDocumentNode,
+  registry: ComponentRegistry,
+): SimplifiedComponentInstance {
+  const { components, componentSets } = registry;
+  const result: SimplifiedComponentInstance = {};
+
+  if (n.type === "INSTANCE") {
+    const component = components[n.componentId];
+    result.componentId = n.componentId;
+    result.componentName = component?.name;
+    if (component?.componentSetId) {
+      result.componentSetId = component.componentSetId;
+      result.componentSetName = componentSets[component.componentSetId]?.name;
+    }
+
+    if (n.componentProperties) {
+      result.componentProperties = Object.entries(n.componentProperties).map(([name, prop]) => ({
+        name: stripPropertyId(name),
+        type: prop.type,
+        value: prop.value,
+        componentName:
+          prop.type === "INSTANCE_SWAP" && typeof prop.value === "string"
+            ? components[prop.value]?.name
+            : undefined,
+      }));
+    }
+
+    if (n.overrides?.length) {
+      result.overrides = n.overrides
+        .filter(({ overriddenFields }) => overriddenFields.length > 0)
+        .map(({ id, overriddenFields }) => ({ id, fields: overriddenFields }));
+    }
+  } else if (n.type === "COMPONENT") {
+    const componentSetId = components[n.id]?.componentSetId;
+    if (componentSetId) {
+      result.componentSetId = componentSetId;
+      result.componentSetName = componentSets[componentSetId]?.name;
+    }
+  }
+
+  // Variants carry their definitions on the parent set; standalone components carry their own
+  if (
+    (n.type === "COMPONENT" || n.type === "COMPONENT_SET") &&
+    hasValue("componentPropertyDefinitions", n) &&
+    n.componentPropertyDefinitions
+  ) {
+    result.componentPropertyDefinitions = simplifyPropertyDefinitions(
+      n.componentPropertyDefinitions,
+    );
+  }
+
+  return result;
+}
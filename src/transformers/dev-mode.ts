@@ -0,0 +1,71 @@
+import type { Measurement, Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+
+// A note a designer pinned to a node in Dev Mode
+export interface SimplifiedAnnotation {
+  // Markdown when the note has formatting
+  label?: string;
+  // Node properties the note calls out, e.g. ["width", "fills"]
+  properties?: string[];
+}
+
+// A pinned distance from a side of this node to a side of another node
+export interface SimplifiedMeasurement {
+  id: string;
+  side: "top" | "right" | "bottom" | "left";
+  to: { nodeId: string; side: "top" | "right" | "bottom" | "left" };
+  // Text shown instead of the measured distance, when the designer overrode it
+  label?: string;
+}
+
+// The published types declare annotations as an empty object
+type RawAnnotation = {
+  label?: string;
+  labelMarkdown?: string;
+  properties?: { type: string }[];
+};
+
+const toSide = (side: string) => side.toLowerCase() as SimplifiedMeasurement["side"];
+
+export function buildAnnotations(n: FigmaDocumentNode): SimplifiedAnnotation[] | undefined {
+  const raw = (n as { annotations?: RawAnnotation[] }).annotations;
+  if (!Array.isArray(raw) || !raw.length) return undefined;
+  return raw.map((annotation) => ({
+    label: annotation.labelMarkdown || annotation.label || undefined,
+    properties: annotation.properties?.length
+      ? annotation.properties.map(({ type }) => type)
+      : undefined,
+  }));
+}
+
+/**
+ * Collect the measurements of the given pages. Measurements are stored on pages, so node
+ * responses don't include them; they're fetched from a shallow request for the file instead.
+ */
+export function collectMeasurements(nodes: FigmaDocumentNode[]): Measurement[] {
+  return nodes.flatMap((n) => (n.type === "CANVAS" && n.measurements) || []);
+}
+
+/**
+ * Index measurements by the node each one starts from, keeping only those between two of the
+ * given nodes
+ */
+export function indexMeasurements(
+  measurements: Measurement[],
+  nodeIds: Set<string>,
+): Map<string, SimplifiedMeasurement[]> {
+  const index = new Map<string, SimplifiedMeasurement[]>();
+  for (const measurement of measurements) {
+    const { nodeId } = measurement.start;
+    if (!nodeIds.has(nodeId) || !nodeIds.has(measurement.end.nodeId)) continue;
+    index.set(nodeId, [
+      ...(index.get(nodeId) ?? []),
+      {
+        id: measurement.id,
+        side: toSide(measurement.start.side),
+        to: { nodeId: measurement.end.nodeId, side: toSide(measurement.end.side) },
+        label: measurement.freeText || undefined,
+      },
+    ]);
+  }
+  return index;
+}
@@ -1,18 +1,28 @@
-import { isFrame, isLayout, isRectangle } from "~/utils/identity.js";
+import { hasValue, isFrame, isLayout, isRectangle, isVector } from "~/utils/identity.js";
 import type {
   Node as FigmaDocumentNode,
   HasFramePropertiesTrait,
   HasLayoutTrait,
+  LayoutGrid,
+  Rectangle,
 } from "@figma/rest-api-spec";
 import { generateCSSShorthand } from "~/utils/common.js";
+import type { VariableBindings } from "~/transformers/variables.js";
 
 export interface SimplifiedLayout {
-  mode: "none" | "row" | "column";
+  mode: "none" | "row" | "column" | "grid";
   justifyContent?: "flex-start" | "flex-end" | "center" | "space-between" | "baseline" | "stretch";
   alignItems?: "flex-start" | "flex-end" | "center" | "space-between" | "baseline" | "stretch";
-  alignSelf?: "flex-start" | "flex-end" | "center" | "stretch";
+  alignSelf?: "flex-start" | "flex-end" | "center" | "stretch" | "start" | "end";
+  justifySelf?: "start" | "end" | "center";
   wrap?: boolean;
   gap?: string;
+  // grid containers
+  gridTemplateColumns?: string;
+  gridTemplateRows?: string;
+  // grid children, e.g. "2 / span 3"
+  gridRow?: string;
+  gridColumn?: string;
   locationRelativeToParent?: {
     x: number;
     y: number;
@@ -21,14 +31,54 @@ export interface SimplifiedLayout {
     width?: number;
     height?: number;
     aspectRatio?: number;
+    minWidth?: number;
+    maxWidth?: number;
+    minHeight?: number;
+    maxHeight?: number;
   };
+  // Responsive pinning of positioned children, translated from Figma constraints
+  constraints?: {
+    horizontal?: "left" | "right" | "left-right" | "center" | "scale";
+    vertical?: "top" | "bottom" | "top-bottom" | "center" | "scale";
+  };
+  // CSS insets relative to the parent, e.g. { left: "16px", right: "16px" } or { left: "calc(50% - 40px)" }
+  insets?: {
+    top?: string;
+    right?: string;
+    bottom?: string;
+    left?: string;
+  };
+  // Percentage sizes for children that scale with their parent
+  relativeSize?: {
+    width?: string;
+    height?: string;
+  };
+  flexGrow?: number;
   padding?: string;
   sizing?: {
     horizontal?: "fixed" | "fill" | "hug";
     vertical?: "fixed" | "fill" | "hug";
   };
   overflowScroll?: ("x" | "y")[];
+  // Frames that clip their content
+  overflow?: "hidden";
+  // Rotation or flips relative to the parent, e.g. "rotate(-15deg)"
+  transform?: string;
   position?: "absolute";
+  // Design token names bound to spacing and sizing fields, e.g. { gap: "spacing/md" }
+  variables?: VariableBindings;
+}
+
+// Layout grid guides drawn on a frame (columns, rows or a square grid), not to be confused with grid auto layout
+export interface SimplifiedLayoutGrid {
+  pattern: "columns" | "rows" | "grid";
+  count?: number;
+  sectionSize?: number;
+  gutter?: number;
+  offset?: number;
+  alignment?: "min" | "max" | "center" | "stretch";
+  // CSS grid template equivalent for column/row guides, e.g. "repeat(12, 1fr)"
+  template?: string;
 }
 
 // Convert Figma's layout config into a more typical flex-like schema
@@ -38,8 +88,91 @@ export function buildSimplifiedLayout(
 ): SimplifiedLayout {
   const frameValues = buildSimplifiedFrameValues(n);
   const layoutValues = buildSimplifiedLayoutValues(n, parent, frameValues.mode) || {};
+  const transform = buildTransform(n);
 
-  return { ...frameValues, ...layoutValues };
+  return { ...frameValues, ...layoutValues, ...(transform && { transform }) };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Convert a node's rotation to a CSS transform. Figma rotates counter-clockwise in radians, CSS
+ * clockwise in degrees. The full relativeTransform is only present when geometry is requested,
+ * and is the only way to tell flips apart from rotations.
+ */
+function buildTransform(n: FigmaDocumentNode): string | undefined {
+  // Without the unrotated size the element keeps its bounding box, which is already rotated
+  if (
+    getRotationAxes(n) &&
+    isRectangle("absoluteBoundingBox", n) &&
+    getLayoutBox(n) === n.absoluteBoundingBox
+  ) {
+    return undefined;
+  }
+
+  if ("relativeTransform" in n && n.relativeTransform) {
+    const [[a, c], [b, d]] = n.relativeTransform;
+    if (a * d - b * c < 0) {
+      // Flipped; rotate() can't express that, but matrix() can. Translation stays with the insets
+      return `matrix(${[a, b, c, d].map(round).join(", ")}, 0, 0)`;
+    }
+    const degrees = round((Math.atan2(b, a) * 180) / Math.PI);
+    return degrees ? `rotate(${degrees}deg)` : undefined;
+  }
+
+  if (hasValue("rotation", n) && typeof n.rotation === "number") {
+    const degrees = round((-n.rotation * 180) / Math.PI);
+    return degrees ? `rotate(${degrees}deg)` : undefined;
+  }
+
+  return undefined;
+}
+
+// Cosine and sine of the node's rotation, as absolute values; undefined when it isn't rotated
+function getRotationAxes(n: FigmaDocumentNode): { cos: number; sin: number } | undefined {
+  let angle: number | undefined;
+  if ("relativeTransform" in n && n.relativeTransform) {
+    const [[a], [b]] = n.relativeTransform;
+    angle = Math.atan2(b, a);
+  } else if (hasValue("rotation", n) && typeof n.rotation === "number") {
+    angle = n.rotation;
+  }
+  if (!angle || !round((angle * 180) / Math.PI)) return undefined;
+  return { cos: Math.abs(Math.cos(angle)), sin: Math.abs(Math.sin(angle)) };
+}
+
+/**
+ * The box a node occupies before its rotation, centered on its rotated bounding box. CSS rotates
+ * elements around their center, so sizing and placing the element by this box and then applying
+ * its transform reproduces the node. The size comes from `size` when the response includes
+ * geometry, and is otherwise worked out from the bounding box. Near 45° the bounding box doesn't
+ * tell the sides apart, so the bounding box itself is returned and the node isn't rotated.
+ */
+function getLayoutBox(n: FigmaDocumentNode): Rectangle | undefined {
+  if (!isRectangle("absoluteBoundingBox", n)) return undefined;
+  const box = n.absoluteBoundingBox;
+  const axes = getRotationAxes(n);
+  if (!axes) return box;
+
+  let width: number;
+  let height: number;
+  if (hasValue("size", n, isVector)) {
+    width = n.size.x;
+    height = n.size.y;
+  } else {
+    // The bounding box of a w × h box rotated by θ is w|cos θ| + h|sin θ| by w|sin θ| + h|cos θ|
+    const { cos, sin } = axes;
+    const determinant = cos * cos - sin * sin;
+    if (Math.abs(determinant) < 0.05) return box;
+    width = round((box.width * cos - box.height * sin) / determinant);
+    height = round((box.height * cos - box.width * sin) / determinant);
+  }
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
 }
 
 // For flex layouts, process alignment and sizing
@@ -140,29 +273,52 @@ function getDirection(
   }
 }
 
+function convertLayoutMode(layoutMode: HasFramePropertiesTrait["layoutMode"]) {
+  switch (layoutMode) {
+    case "HORIZONTAL":
+      return "row";
+    case "VERTICAL":
+      return "column";
+    case "GRID":
+      return "grid";
+    default:
+      return "none";
+  }
+}
+
 function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | { mode: "none" } {
   if (!isFrame(n)) {
     return { mode: "none" };
   }
 
   const frameValues: SimplifiedLayout = {
-    mode:
-      !n.layoutMode || n.layoutMode === "NONE"
-        ? "none"
-        : n.layoutMode === "HORIZONTAL"
-          ? "row"
-          : "column",
+    mode: convertLayoutMode(n.layoutMode),
   };
 
   const overflowScroll: SimplifiedLayout["overflowScroll"] = [];
   if (n.overflowDirection?.includes("HORIZONTAL")) overflowScroll.push("x");
   if (n.overflowDirection?.includes("VERTICAL")) overflowScroll.push("y");
   if (overflowScroll.length > 0) frameValues.overflowScroll = overflowScroll;
+  if (n.clipsContent) frameValues.overflow = "hidden";
 
   if (frameValues.mode === "none") {
     return frameValues;
   }
 
+  // gather padding
+  if (n.paddingTop || n.paddingBottom || n.paddingLeft || n.paddingRight) {
+    frameValues.padding = generateCSSShorthand({
+      top: n.paddingTop ?? 0,
+      right: n.paddingRight ?? 0,
+      bottom: n.paddingBottom ?? 0,
+      left: n.paddingLeft ?? 0,
+    });
+  }
+
+  if (frameValues.mode === "grid") {
+    return { ...frameValues, ...buildSimplifiedGridValues(n) };
+  }
+
   // TODO: convertAlign should be two functions, one for justifyContent and one for alignItems
   frameValues.justifyContent = convertAlign(n.primaryAxisAlignItems ?? "MIN", {
     children: n.children,
@@ -179,66 +335,167 @@ function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | {
   // Only include wrap if it's set to WRAP, since flex layouts don't default to wrapping
   frameValues.wrap = n.layoutWrap === "WRAP" ? true : undefined;
   frameValues.gap = n.itemSpacing ? `${n.itemSpacing ?? 0}px` : undefined;
-  // gather padding
-  if (n.paddingTop || n.paddingBottom || n.paddingLeft || n.paddingRight) {
-    frameValues.padding = generateCSSShorthand({
-      top: n.paddingTop ?? 0,
-      right: n.paddingRight ?? 0,
-      bottom: n.paddingBottom ?? 0,
-      left: n.paddingLeft ?? 0,
-    });
-  }
 
   return frameValues;
 }
 
+// Grid auto layout maps directly onto CSS grid; Figma already provides the track sizing strings
+function buildSimplifiedGridValues(
+  n: HasFramePropertiesTrait & HasLayoutTrait,
+): Partial<SimplifiedLayout> {
+  const gridValues: Partial<SimplifiedLayout> = {
+    gridTemplateColumns:
+      n.gridColumnsSizing || (n.gridColumnCount ? `repeat(${n.gridColumnCount}, 1fr)` : undefined),
+    gridTemplateRows:
+      n.gridRowsSizing || (n.gridRowCount ? `repeat(${n.gridRowCount}, 1fr)` : undefined),
+  };
+
+  const rowGap = n.gridRowGap ?? 0;
+  const columnGap = n.gridColumnGap ?? 0;
+  if (rowGap || columnGap) {
+    gridValues.gap = rowGap === columnGap ? `${rowGap}px` : `${rowGap}px ${columnGap}px`;
+  }
+
+  return gridValues;
+}
+
+// Placement of a child within a grid auto layout parent, e.g. "2 / span 3"
+function convertGridPlacement(anchorIndex?: number, span?: number) {
+  const spanValue = span && span > 1 ? `span ${span}` : undefined;
+  if (anchorIndex !== undefined && anchorIndex >= 0) {
+    return spanValue ? `${anchorIndex + 1} / ${spanValue}` : `${anchorIndex + 1}`;
+  }
+  return spanValue;
+}
+
+function convertGridChildAlign(align?: HasLayoutTrait["gridChildHorizontalAlign"]) {
+  switch (align) {
+    case "MIN":
+      return "start";
+    case "CENTER":
+      return "center";
+    case "MAX":
+      return "end";
+    default:
+      // AUTO stretches the child across its grid area, which is the CSS default
+      return undefined;
+  }
+}
+
+function convertLayoutGridAlignment(alignment: LayoutGrid["alignment"]) {
+  switch (alignment) {
+    case "MIN":
+      return "min";
+    case "MAX":
+      return "max";
+    case "CENTER":
+      return "center";
+    case "STRETCH":
+      return "stretch";
+  }
+}
+
+/**
+ * Describe the layout grid guides (columns, rows, square grid) drawn on a frame
+ */
+export function buildSimplifiedLayoutGrids(n: FigmaDocumentNode): SimplifiedLayoutGrid[] {
+  if (!isFrame(n) || !n.layoutGrids) return [];
+
+  return n.layoutGrids
+    .filter((grid) => grid.visible !== false)
+    .map((grid) => {
+      if (grid.pattern === "GRID") {
+        return { pattern: "grid", sectionSize: grid.sectionSize };
+      }
+
+      const alignment = convertLayoutGridAlignment(grid.alignment);
+      const stretch = alignment === "stretch";
+      const count = grid.count > 0 ? grid.count : undefined;
+      return {
+        pattern: grid.pattern === "COLUMNS" ? "columns" : "rows",
+        count,
+        // Stretched guides size themselves to fill the frame, so their section size is meaningless
+        sectionSize: stretch ? undefined : grid.sectionSize,
+        gutter: grid.gutterSize || undefined,
+        offset: grid.offset || undefined,
+        alignment,
+        template: count
+          ? `repeat(${count}, ${stretch ? "1fr" : `${grid.sectionSize}px`})`
+          : undefined,
+      };
+    });
+}
+
 function buildSimplifiedLayoutValues(
   n: FigmaDocumentNode,
   parent: FigmaDocumentNode | undefined,
-  mode: "row" | "column" | "none",
+  mode: SimplifiedLayout["mode"],
 ): SimplifiedLayout | undefined {
   if (!isLayout(n)) return undefined;
 
   const layoutValues: SimplifiedLayout = { mode };
+  const box = getLayoutBox(n);
 
   layoutValues.sizing = {
     horizontal: convertSizing(n.layoutSizingHorizontal),
     vertical: convertSizing(n.layoutSizingVertical),
   };
 
+  // Children of grid auto layout are placed by their grid area rather than by coordinates
+  if (isFrame(parent) && parent.layoutMode === "GRID" && n.layoutPositioning !== "ABSOLUTE") {
+    layoutValues.gridRow = convertGridPlacement(n.gridRowAnchorIndex, n.gridRowSpan);
+    layoutValues.gridColumn = convertGridPlacement(n.gridColumnAnchorIndex, n.gridColumnSpan);
+    layoutValues.justifySelf = convertGridChildAlign(n.gridChildHorizontalAlign);
+    layoutValues.alignSelf = convertGridChildAlign(n.gridChildVerticalAlign);
+
+    if (box) {
+      const dimensions: { width?: number; height?: number } = {};
+      if (n.layoutSizingHorizontal === "FIXED") dimensions.width = box.width;
+      if (n.layoutSizingVertical === "FIXED") dimensions.height = box.height;
+      if (Object.keys(dimensions).length > 0) layoutValues.dimensions = dimensions;
+    }
+    return layoutValues;
+  }
+
   // Only include positioning-related properties if parent layout isn't flex or if the node is absolute
   if (isFrame(parent) && (parent?.layoutMode === "NONE" || n.layoutPositioning === "ABSOLUTE")) {
     if (n.layoutPositioning === "ABSOLUTE") {
       layoutValues.position = "absolute";
     }
-    if (n.absoluteBoundingBox && parent.absoluteBoundingBox) {
+    if (box && parent.absoluteBoundingBox) {
       layoutValues.locationRelativeToParent = {
-        x: n.absoluteBoundingBox.x - (parent?.absoluteBoundingBox?.x ?? n.absoluteBoundingBox.x),
-        y: n.absoluteBoundingBox.y - (parent?.absoluteBoundingBox?.y ?? n.absoluteBoundingBox.y),
+        x: box.x - (parent?.absoluteBoundingBox?.x ?? box.x),
+        y: box.y - (parent?.absoluteBoundingBox?.y ?? box.y),
       };
     }
+    if (box && isRectangle("absoluteBoundingBox", parent)) {
+      Object.assign(layoutValues, buildConstraintValues(n, box, parent));
+    }
+    layoutValues.dimensions = withSizeLimits(n, layoutValues.dimensions);
     return layoutValues;
   }
 
+  if (n.layoutGrow && isFrame(parent) && parent.layoutMode !== "GRID") {
+    layoutValues.flexGrow = n.layoutGrow;
+  }
+
   // Handle dimensions based on layout growth and alignment
-  if (isRectangle("absoluteBoundingBox", n) && isRectangle("absoluteBoundingBox", parent)) {
+  if (box && isRectangle("absoluteBoundingBox", parent)) {
     const dimensions: { width?: number; height?: number; aspectRatio?: number } = {};
 
     // Only include dimensions that aren't meant to stretch
     if (mode === "row") {
-      if (!n.layoutGrow && n.layoutSizingHorizontal == "FIXED")
-        dimensions.width = n.absoluteBoundingBox.width;
+      if (!n.layoutGrow && n.layoutSizingHorizontal == "FIXED") dimensions.width = box.width;
       if (n.layoutAlign !== "STRETCH" && n.layoutSizingVertical == "FIXED")
-        dimensions.height = n.absoluteBoundingBox.height;
+        dimensions.height = box.height;
     } else if (mode === "column") {
       // column
       if (n.layoutAlign !== "STRETCH" && n.layoutSizingHorizontal == "FIXED")
-        dimensions.width = n.absoluteBoundingBox.width;
-      if (!n.layoutGrow && n.layoutSizingVertical == "FIXED")
-        dimensions.height = n.absoluteBoundingBox.height;
+        dimensions.width = box.width;
+      if (!n.layoutGrow && n.layoutSizingVertical == "FIXED") dimensions.height = box.height;
 
       if (n.preserveRatio) {
-        dimensions.aspectRatio = n.absoluteBoundingBox?.width / n.absoluteBoundingBox?.height;
+        dimensions.aspectRatio = box.width / box.height;
       }
     }
 
@@ -247,5 +504,137 @@ function buildSimplifiedLayoutValues(
     }
   }
 
+  layoutValues.dimensions = withSizeLimits(n, layoutValues.dimensions);
   return layoutValues;
 }
+
+// Min/max sizes apply regardless of how the node is positioned
+function withSizeLimits(
+  n: HasLayoutTrait,
+  dimensions: SimplifiedLayout["dimensions"] = {},
+): SimplifiedLayout["dimensions"] {
+  const limits = {
+    minWidth: n.minWidth ?? undefined,
+    maxWidth: n.maxWidth ?? undefined,
+    minHeight: n.minHeight ?? undefined,
+    maxHeight: n.maxHeight ?? undefined,
+  };
+  const result = { ...dimensions };
+  for (const [key, value] of Object.entries(limits) as [
+    keyof typeof limits,
+    number | undefined,
+  ][]) {
+    if (value) result[key] = value;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function formatCenterOffset(offset: number) {
+  const rounded = Math.round(offset * 100) / 100;
+  if (rounded === 0) return "50%";
+  return `calc(50% ${rounded < 0 ? "-" : "+"} ${Math.abs(rounded)}px)`;
+}
+
+const toPercent = (part: number, whole: number) => `${Math.round((part / whole) * 10000) / 100}%`;
+
+const horizontalConstraints = {
+  LEFT: "left",
+  RIGHT: "right",
+  LEFT_RIGHT: "left-right",
+  CENTER: "center",
+  SCALE: "scale",
+} as const;
+
+const verticalConstraints = {
+  TOP: "top",
+  BOTTOM: "bottom",
+  TOP_BOTTOM: "top-bottom",
+  CENTER: "center",
+  SCALE: "scale",
+} as const;
+
+/**
+ * Translate Figma constraints of a positioned child into CSS insets, sizes and percentages
+ * relative to its parent, so the element keeps its pinning when the parent resizes
+ */
+function buildConstraintValues(
+  n: HasLayoutTrait,
+  box: Rectangle,
+  parent: { absoluteBoundingBox: Rectangle },
+): Pick<SimplifiedLayout, "constraints" | "insets" | "relativeSize" | "dimensions"> {
+  const parentBox = parent.absoluteBoundingBox;
+  const left = box.x - parentBox.x;
+  const top = box.y - parentBox.y;
+  const right = parentBox.width - left - box.width;
+  const bottom = parentBox.height - top - box.height;
+  const round = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+  const insets: NonNullable<SimplifiedLayout["insets"]> = {};
+  const relativeSize: NonNullable<SimplifiedLayout["relativeSize"]> = {};
+  const dimensions: NonNullable<SimplifiedLayout["dimensions"]> = {};
+  const { horizontal = "LEFT", vertical = "TOP" } = n.constraints ?? {};
+
+  switch (horizontal) {
+    case "LEFT":
+      insets.left = round(left);
+      dimensions.width = box.width;
+      break;
+    case "RIGHT":
+      insets.right = round(right);
+      dimensions.width = box.width;
+      break;
+    case "LEFT_RIGHT":
+      insets.left = round(left);
+      insets.right = round(right);
+      break;
+    case "CENTER":
+      insets.left = formatCenterOffset(left - parentBox.width / 2);
+      dimensions.width = box.width;
+      break;
+    case "SCALE":
+      if (parentBox.width) {
+        insets.left = toPercent(left, parentBox.width);
+        relativeSize.width = toPercent(box.width, parentBox.width);
+      }
+      break;
+  }
+
+  switch (vertical) {
+    case "TOP":
+      insets.top = round(top);
+      dimensions.height = box.height;
+      break;
+    case "BOTTOM":
+      insets.bottom = round(bottom);
+      dimensions.height = box.height;
+      break;
+    case "TOP_BOTTOM":
+      insets.top = round(top);
+      insets.bottom = round(bottom);
+      break;
+    case "CENTER":
+      insets.top = formatCenterOffset(top - parentBox.height / 2);
+      dimensions.height = box.height;
+      break;
+    case "SCALE":
+      if (parentBox.height) {
+        insets.top = toPercent(top, parentBox.height);
+        relativeSize.height = toPercent(box.height, parentBox.height);
+      }
+      break;
+  }
+
+  // Top-left pinning is the default, so only call out constraints that change resize behavior
+  const isDefault = horizontal === "LEFT" && vertical === "TOP";
+  return {
+    constraints: isDefault
+      ? undefined
+      : {
+          horizontal: horizontalConstraints[horizontal],
+          vertical: verticalConstraints[vertical],
+        },
+    insets,
+    relativeSize: Object.keys(relativeSize).length > 0 ? relativeSize : undefined,
+    dimensions: Object.keys(dimensions).length > 0 ? dimensions : undefined,
+  };
+}
@@ -1,20 +1,73 @@
 import { Node as FigmaDocumentNode } from "@figma/rest-api-spec";
 import { SimplifiedFill } from "~/services/simplify-node-response.js";
-import { generateCSSShorthand, isVisible, parsePaint } from "~/utils/common.js";
+import { generateCSSShorthand, isVisible, parsePaint, ParsePaintOptions } from "~/utils/common.js";
 import { hasValue, isStrokeWeights } from "~/utils/identity.js";
 export type SimplifiedStroke = {
   colors: SimplifiedFill[];
+  // Weight of every side, e.g. "1px"
   strokeWeight?: string;
   strokeDashes?: number[];
+  // Per-side weights as a CSS shorthand, e.g. "0px 0px 1px 0px"; set instead of strokeWeight
   strokeWeights?: string;
+  strokeAlign?: "inside" | "outside" | "center";
+  // Whether auto layout makes room for the stroke, like box-sizing: border-box
+  strokesIncludedInLayout?: boolean;
+  // Ends and corners of vector paths, as SVG stroke-linecap / stroke-linejoin values
+  strokeCap?: "butt" | "round" | "square";
+  strokeJoin?: "bevel" | "round";
+  // CSS that draws the stroke on a box, when the stroke has a solid color
+  css?: StrokeCss;
 };
-export function buildSimplifiedStrokes(n: FigmaDocumentNode): SimplifiedStroke {
+
+// Only one of border, outline or boxShadow is used for a given stroke
+export type StrokeCss = {
+  borderWidth?: string;
+  borderStyle?: "solid" | "dashed";
+  borderColor?: string;
+  boxSizing?: "border-box";
+  // e.g. "1px dashed #000000"
+  outline?: string;
+  outlineOffset?: string;
+  boxShadow?: string;
+};
+
+// Nodes whose strokes follow a path rather than a box, which only SVG can draw
+export const PATH_TYPES = new Set([
+  "VECTOR",
+  "LINE",
+  "STAR",
+  "REGULAR_POLYGON",
+  "BOOLEAN_OPERATION",
+  "TEXT",
+]);
+
+const STROKE_CAPS: Record<string, SimplifiedStroke["strokeCap"]> = {
+  NONE: "butt",
+  ROUND: "round",
+  SQUARE: "square",
+};
+
+export function buildSimplifiedStrokes(
+  n: FigmaDocumentNode,
+  paintOptions?: ParsePaintOptions,
+): SimplifiedStroke {
   let strokes: SimplifiedStroke = { colors: [] };
   if (hasValue("strokes", n) && Array.isArray(n.strokes) && n.strokes.length) {
-    strokes.colors = n.strokes.filter(isVisible).map(parsePaint);
+    strokes.colors = n.strokes.filter(isVisible).map((paint) => parsePaint(paint, paintOptions));
   }
 
-  if (hasValue("strokeWeight", n) && typeof n.strokeWeight === "number" && n.strokeWeight > 0) {
+  const strokeWeights = hasValue("individualStrokeWeights", n, isStrokeWeights)
+    ? generateCSSShorthand(n.individualStrokeWeights)
+    : undefined;
+  if (strokeWeights?.includes(" ")) {
+    strokes.strokeWeights = strokeWeights;
+  } else if (strokeWeights) {
+    strokes.strokeWeight = strokeWeights;
+  } else if (
+    hasValue("strokeWeight", n) &&
+    typeof n.strokeWeight === "number" &&
+    n.strokeWeight > 0
+  ) {
     strokes.strokeWeight = `${n.strokeWeight}px`;
   }
 
@@ -22,9 +75,97 @@ export function buildSimplifiedStrokes(n: FigmaDocumentNode): SimplifiedStroke {
     strokes.strokeDashes = n.strokeDashes;
   }
 
-  if (hasValue("individualStrokeWeights", n, isStrokeWeights)) {
-    strokes.strokeWeight = generateCSSShorthand(n.individualStrokeWeights);
+  if (hasValue("strokeAlign", n) && typeof n.strokeAlign === "string") {
+    strokes.strokeAlign = n.strokeAlign.toLowerCase() as SimplifiedStroke["strokeAlign"];
+  }
+  if (hasValue("strokesIncludedInLayout", n) && n.strokesIncludedInLayout === true) {
+    strokes.strokesIncludedInLayout = true;
+  }
+  if (hasValue("strokeCap", n) && typeof n.strokeCap === "string") {
+    strokes.strokeCap = STROKE_CAPS[n.strokeCap];
+  }
+  // MITER is the default in both Figma and SVG
+  if (hasValue("strokeJoin", n) && (n.strokeJoin === "BEVEL" || n.strokeJoin === "ROUND")) {
+    strokes.strokeJoin = n.strokeJoin === "BEVEL" ? "bevel" : "round";
+  }
+
+  const color = strokes.colors.length ? solidColor(strokes.colors[0]) : undefined;
+  if (color && !PATH_TYPES.has(n.type)) {
+    strokes.css = buildStrokeCss(strokes, color);
   }
 
   return strokes;
 }
+
+function solidColor(fill: SimplifiedFill): string | undefined {
+  return typeof fill === "string" ? fill : (fill.hex ?? fill.rgba);
+}
+
+const px = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+/**
+ * Pick the CSS construct that draws a stroke where Figma does without resizing the box.
+ *
+ * - Strokes that auto layout makes room for are borders on a border-box, which take up the same
+ *   space.
+ * - Uniform strokes are outlines, offset inwards by the part of the stroke inside the box. Unlike
+ *   box-shadow, outlines can be dashed.
+ * - Per-side strokes are one box-shadow per side, inset for inside strokes, outset for outside
+ *   strokes and half of each for centered strokes. Dashed per-side strokes fall back to borders.
+ *
+ * @param stroke - The simplified stroke, without css
+ * @param color - CSS color to draw with, e.g. a var() reference to a color token
+ */
+export function buildStrokeCss(stroke: SimplifiedStroke, color: string): StrokeCss | undefined {
+  const sides = parseSides(stroke);
+  if (!sides) return undefined;
+  const align = stroke.strokeAlign ?? "inside";
+  const style = stroke.strokeDashes?.length ? "dashed" : "solid";
+  const uniform = sides.every((side) => side === sides[0]);
+
+  const useBorder =
+    (align === "inside" && stroke.strokesIncludedInLayout) || (!uniform && style === "dashed");
+  if (useBorder) {
+    return {
+      borderWidth: stroke.strokeWeights ?? stroke.strokeWeight,
+      borderStyle: style,
+      borderColor: color,
+      boxSizing: "border-box",
+    };
+  }
+
+  if (uniform) {
+    const width = sides[0];
+    const inside = align === "inside" ? width : align === "center" ? width / 2 : 0;
+    return {
+      outline: `${px(width)} ${style} ${color}`,
+      outlineOffset: px(-inside),
+    };
+  }
+
+  // x/y direction of each side's shadow when drawn outside the box: top, right, bottom, left
+  const directions = [
+    [0, -1],
+    [1, 0],
+    [0, 1],
+    [-1, 0],
+  ];
+  const shadow = (width: number, [x, y]: number[], inset: boolean) =>
+    `${inset ? "inset " : ""}${px(inset ? -x * width : x * width)} ${px(inset ? -y * width : y * width)} 0 0 ${color}`;
+  const shadows = sides.flatMap((width, i) => {
+    if (!width) return [];
+    if (align === "inside") return [shadow(width, directions[i], true)];
+    if (align === "outside") return [shadow(width, directions[i], false)];
+    return [shadow(width / 2, directions[i], true), shadow(width / 2, directions[i], false)];
+  });
+  return { boxShadow: shadows.join(", ") };
+}
+
+// Weights of the top, right, bottom and left sides
+function parseSides(stroke: SimplifiedStroke): number[] | undefined {
+  const shorthand = stroke.strokeWeights ?? stroke.strokeWeight;
+  if (!shorthand) return undefined;
+  const values = shorthand.split(" ").map((value) => parseFloat(value));
+  const [top, right = top, bottom = top, left = right] = values;
+  return [top, right, bottom, left];
+}
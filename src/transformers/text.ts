@@ -0,0 +1,128 @@
+import type { Node as FigmaDocumentNode, Paint, TextNode, TypeStyle } from "@figma/rest-api-spec";
+import { TextStyle } from "~/services/simplify-node-response.js";
+
+export interface TextRun {
+  text: string;
+  // Only the fields that differ from the node's base text style
+  style?: TextStyle;
+  fills?: Paint[];
+  link?: { url?: string; nodeId?: string };
+  listType?: "ordered" | "unordered";
+  indent?: number;
+}
+
+/**
+ * Convert a Figma TypeStyle into a TextStyle. Works on partial styles too, such as the entries of a
+ * text node's styleOverrideTable, in which case `baseFontSize` supplies the size used for relative
+ * line height and letter spacing.
+ */
+export function buildSimplifiedTextStyle(
+  style: Partial<TypeStyle>,
+  baseFontSize?: number,
+): TextStyle {
+  const fontSize = style.fontSize ?? baseFontSize;
+  return {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: style.fontSize,
+    italic: style.italic || undefined,
+    lineHeight: style.lineHeightPx && fontSize ? `${style.lineHeightPx / fontSize}em` : undefined,
+    letterSpacing:
+      style.letterSpacing && style.letterSpacing !== 0 && fontSize
+        ? `${(style.letterSpacing / fontSize) * 100}%`
+        : undefined,
+    textCase: style.textCase,
+    textDecoration: style.textDecoration !== "NONE" ? style.textDecoration : undefined,
+    textAlignHorizontal: style.textAlignHorizontal,
+    textAlignVertical: style.textAlignVertical,
+  };
+}
+
+/**
+ * Build the text box sizing behavior of a text node: auto-resize mode and truncation
+ */
+export function buildTextBoxStyle(style: TypeStyle): TextStyle {
+  const truncate = style.textTruncation === "ENDING" || style.textAutoResize === "TRUNCATE";
+  return {
+    textAutoResize:
+      style.textAutoResize && style.textAutoResize !== "NONE" && style.textAutoResize !== "TRUNCATE"
+        ? style.textAutoResize
+        : undefined,
+    textTruncation: truncate ? "ENDING" : undefined,
+    maxLines: truncate ? style.maxLines : undefined,
+  };
+}
+
+function isLineBreak(char: string) {
+  return char === "\n" || char === "\u2028" || char === "\u2029";
+}
+
+/**
+ * Split a text node into runs that share the same style override, link and list line. Returns
+ * undefined for plain text, where the node's text and textStyle already describe everything.
+ */
+export function buildTextRuns(n: FigmaDocumentNode): TextRun[] | undefined {
+  if (n.type !== "TEXT" || !n.characters) return undefined;
+
+  const {
+    characters,
+    style,
+    characterStyleOverrides = [],
+    styleOverrideTable = {},
+    lineTypes = [],
+    lineIndentations = [],
+  } = n;
+  const hasOverrides = characterStyleOverrides.some((id) => id !== 0);
+  const hasLists = lineTypes.some((type) => type !== "NONE");
+  const hasIndents = lineIndentations.some((indent) => indent > 0);
+  if (!hasOverrides && !hasLists && !hasIndents && !style.hyperlink) return undefined;
+
+  // Lines only need their own runs when they carry list markers or indentation
+  const splitLines = hasLists || hasIndents;
+  const overrideAt = (i: number) => characterStyleOverrides[i] ?? 0;
+
+  const runs: TextRun[] = [];
+  let line = 0;
+  let start = 0;
+  for (let i = 1; i <= characters.length; i++) {
+    const endsLine = isLineBreak(characters[i - 1]);
+    if (i < characters.length && !(splitLines && endsLine) && overrideAt(i) === overrideAt(start)) {
+      continue;
+    }
+    const override = styleOverrideTable[overrideAt(start)];
+    runs.push(buildTextRun(characters.slice(start, i), override, n, line));
+    start = i;
+    if (endsLine) line++;
+  }
+
+  return runs;
+}
+
+function buildTextRun(
+  text: string,
+  override: TypeStyle | undefined,
+  n: TextNode,
+  line: number,
+): TextRun {
+  const run: TextRun = { text };
+
+  if (override) {
+    run.style = buildSimplifiedTextStyle(override, n.style.fontSize);
+    // Unlike on the base style, "NONE" on a run removes the base style's underline or strikethrough
+    if (override.textDecoration === "NONE") run.style.textDecoration = "NONE";
+    if (override.fills?.length) run.fills = override.fills;
+  }
+
+  const hyperlink = override?.hyperlink ?? n.style.hyperlink;
+  if (hyperlink) {
+    run.link = hyperlink.type === "URL" ? { url: hyperlink.url } : { nodeId: hyperlink.nodeID };
+  }
+
+  const lineType = n.lineTypes?.[line];
+  if (lineType === "ORDERED") run.listType = "ordered";
+  if (lineType === "UNORDERED") run.listType = "unordered";
+  const indent = n.lineIndentations?.[line];
+  if (indent) run.indent = indent;
+
+  return run;
+}
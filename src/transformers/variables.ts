@@ -0,0 +1,232 @@
+import type {
+  LocalVariable,
+  LocalVariableCollection,
+  Node as FigmaDocumentNode,
+  RGB,
+  RGBA,
+  VariableAlias,
+} from "@figma/rest-api-spec";
+import { convertColor, formatRGBAColor } from "~/utils/common.js";
+import { hasValue } from "~/utils/identity.js";
+
+export type VariableRegistry = {
+  variables: Record<string, LocalVariable>;
+  variableCollections: Record<string, LocalVariableCollection>;
+};
+
+export type VariableValue = string | number | boolean;
+
+export interface SimplifiedVariable {
+  name: string;
+  collection: string;
+  type: LocalVariable["resolvedType"];
+  description?: string;
+  // Name of the collection's default mode, a key of valuesByMode
+  defaultMode?: string;
+  valuesByMode: Record<string, VariableValue>;
+}
+
+/**
+ * Resolves a bound variable alias to its token name (e.g. "color/surface/primary"), or undefined
+ * if the variable isn't known to the file
+ */
+export type VariableResolver = (
+  alias: VariableAlias | VariableAlias[] | undefined,
+) => string | undefined;
+
+/**
+ * Token names bound to individual node fields, keyed by the CSS-ish property they affect
+ */
+export type VariableBindings = Record<string, string>;
+
+function isVariableAlias(val: unknown): val is VariableAlias {
+  return (
+    typeof val === "object" &&
+    val !== null &&
+    "type" in val &&
+    val.type === "VARIABLE_ALIAS" &&
+    "id" in val
+  );
+}
+
+function isRGBA(val: unknown): val is RGB | RGBA {
+  return typeof val === "object" && val !== null && "r" in val && "g" in val && "b" in val;
+}
+
+function getTokenName(registry: VariableRegistry, id: string): string | undefined {
+  const variable = registry.variables[id];
+  if (!variable) return undefined;
+  const collection = registry.variableCollections[variable.variableCollectionId];
+  return collection ? `${collection.name}/${variable.name}` : variable.name;
+}
+
+function simplifyVariableValue(
+  registry: VariableRegistry,
+  value: LocalVariable["valuesByMode"][string] | RGB,
+): VariableValue {
+  if (isVariableAlias(value)) {
+    // Aliases are written as references, following the design tokens alias syntax
+    const target = getTokenName(registry, value.id);
+    return target ? `{${target}}` : value.id;
+  }
+  if (isRGBA(value)) {
+    // Colors composed with a variable-bound opacity may come without an alpha channel
+    const color: RGBA = { a: 1, ...(value as RGB) };
+    const { hex, opacity } = convertColor(color);
+    return opacity === 1 ? hex : formatRGBAColor(color);
+  }
+  if (typeof value === "object" && "color" in value) {
+    // Composed colors bind the color and opacity separately; the color part carries the token
+    return simplifyVariableValue(registry, value.color);
+  }
+  if (typeof value === "number") {
+    return Math.round(value * 1000) / 1000;
+  }
+  return value;
+}
+
+export function simplifyVariable(
+  registry: VariableRegistry,
+  variable: LocalVariable,
+): SimplifiedVariable {
+  const collection = registry.variableCollections[variable.variableCollectionId];
+  const modeNames = Object.fromEntries(
+    (collection?.modes ?? []).map(({ modeId, name }) => [modeId, name]),
+  );
+  const defaultModeId = collection?.defaultModeId;
+  // The API doesn't order modes, so the default one is listed first
+  const modes = Object.entries(variable.valuesByMode).sort(
+    ([a], [b]) => Number(b === defaultModeId) - Number(a === defaultModeId),
+  );
+
+  return {
+    name: variable.name,
+    collection: collection?.name ?? "",
+    type: variable.resolvedType,
+    description: variable.description || undefined,
+    defaultMode:
+      defaultModeId && defaultModeId in variable.valuesByMode
+        ? (modeNames[defaultModeId] ?? defaultModeId)
+        : undefined,
+    valuesByMode: Object.fromEntries(
+      modes.map(([modeId, value]) => [
+        modeNames[modeId] ?? modeId,
+        simplifyVariableValue(registry, value),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Create a resolver that records every variable it resolves in `usedVariables`, so that only
+ * the tokens actually referenced by the parsed nodes end up in the output
+ */
+export function createVariableResolver(
+  registry: VariableRegistry | undefined,
+  usedVariables: Record<string, SimplifiedVariable>,
+): VariableResolver {
+  // Tokens whose alias targets are being registered, to stop at alias cycles
+  const pending = new Set<string>();
+  const register = (registry: VariableRegistry, id: string): string | undefined => {
+    const variable = registry.variables[id];
+    const tokenName = getTokenName(registry, id);
+    if (!variable || !tokenName) return undefined;
+
+    if (!usedVariables[tokenName] && !pending.has(tokenName)) {
+      // Include alias targets so every "{token}" reference resolves within the output. They're
+      // added first, so tokens are listed after the tokens they reference
+      pending.add(tokenName);
+      Object.values(variable.valuesByMode)
+        .filter(isVariableAlias)
+        .forEach((value) => register(registry, value.id));
+      usedVariables[tokenName] = simplifyVariable(registry, variable);
+    }
+    return tokenName;
+  };
+
+  return (alias) => {
+    if (!registry || !alias) return undefined;
+    // Text fields bind one alias per styled range; the first one covers the node's base style
+    const first = Array.isArray(alias) ? alias[0] : alias;
+    return first ? register(registry, first.id) : undefined;
+  };
+}
+
+const layoutBindings = {
+  itemSpacing: "gap",
+  counterAxisSpacing: "rowGap",
+  paddingTop: "paddingTop",
+  paddingRight: "paddingRight",
+  paddingBottom: "paddingBottom",
+  paddingLeft: "paddingLeft",
+  minWidth: "minWidth",
+  maxWidth: "maxWidth",
+  minHeight: "minHeight",
+  maxHeight: "maxHeight",
+} as const;
+
+const textBindings = {
+  fontFamily: "fontFamily",
+  fontSize: "fontSize",
+  fontStyle: "fontStyle",
+  fontWeight: "fontWeight",
+  letterSpacing: "letterSpacing",
+  lineHeight: "lineHeight",
+  paragraphSpacing: "paragraphSpacing",
+  paragraphIndent: "textIndent",
+} as const;
+
+const appearanceBindings = {
+  topLeftRadius: "borderTopLeftRadius",
+  topRightRadius: "borderTopRightRadius",
+  bottomRightRadius: "borderBottomRightRadius",
+  bottomLeftRadius: "borderBottomLeftRadius",
+  opacity: "opacity",
+} as const;
+
+function resolveBindings(
+  n: FigmaDocumentNode,
+  fields: Record<string, string>,
+  resolve: VariableResolver,
+): VariableBindings {
+  if (!hasValue("boundVariables", n) || !n.boundVariables) return {};
+  const bound = n.boundVariables as Record<string, VariableAlias | VariableAlias[] | undefined>;
+
+  const result: VariableBindings = {};
+  for (const [field, property] of Object.entries(fields)) {
+    const token = resolve(bound[field]);
+    if (token) result[property] = token;
+  }
+
+  return result;
+}
+
+export function buildLayoutVariableBindings(
+  n: FigmaDocumentNode,
+  resolve: VariableResolver,
+): VariableBindings {
+  const result = resolveBindings(n, layoutBindings, resolve);
+
+  if (hasValue("boundVariables", n) && n.boundVariables?.size) {
+    const width = resolve(n.boundVariables.size.x);
+    const height = resolve(n.boundVariables.size.y);
+    if (width) result.width = width;
+    if (height) result.height = height;
+  }
+
+  return result;
+}
+
+export function buildTextVariableBindings(
+  n: FigmaDocumentNode,
+  resolve: VariableResolver,
+): VariableBindings {
+  return resolveBindings(n, textBindings, resolve);
+}
+
+export function buildAppearanceVariableBindings(
+  n: FigmaDocumentNode,
+  resolve: VariableResolver,
+): VariableBindings {
+  return resolveBindings(n, appearanceBindings, resolve);
+}
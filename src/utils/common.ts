@@ -1,8 +1,17 @@
 import fs from "fs";
 import path from "path";
-
-import type { Paint, RGBA } from "@figma/rest-api-spec";
+import { createHash } from "crypto";
+
+import type {
+  BlendMode,
+  GradientPaint,
+  ImagePaint,
+  Paint,
+  RGBA,
+  Vector,
+} from "@figma/rest-api-spec";
 import { CSSHexColor, CSSRGBAColor, SimplifiedFill } from "~/services/simplify-node-response.js";
+import type { VariableResolver } from "~/transformers/variables.js";
 
 export type StyleId = `${string}_${string}` & { __brand: "StyleId" };
 
@@ -11,9 +20,18 @@ export interface ColorValue {
   opacity: number;
 }
 
+// Extensions of the image types Figma serves uploaded image fills as
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
 /**
  * Download Figma image and save it locally
- * @param fileName - The filename to save as
+ * @param fileName - The filename to save as, without an extension to use the downloaded type's
  * @param localPath - The local path to save to
  * @param imageUrl - Image URL (images[nodeId])
  * @returns A Promise that resolves to the full file path where the image was saved
@@ -25,14 +43,6 @@ export async function downloadFigmaImage(
   imageUrl: string,
 ): Promise<string> {
   try {
-    // Ensure local path exists
-    if (!fs.existsSync(localPath)) {
-      fs.mkdirSync(localPath, { recursive: true });
-    }
-
-    // Build the complete file path
-    const fullPath = path.join(localPath, fileName);
-
     // Use fetch to download the image
     const response = await fetch(imageUrl, {
       method: "GET",
@@ -42,6 +52,16 @@ export async function downloadFigmaImage(
       throw new Error(`Failed to download image: ${response.statusText}`);
     }
 
+    // Build the complete file path
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim() ?? "";
+    const extension = path.extname(fileName) ? undefined : IMAGE_EXTENSIONS[contentType];
+    const fullPath = path.join(localPath, extension ? `${fileName}.${extension}` : fileName);
+
+    // Ensure local path exists, along with any folders in the file name, e.g. "3x/icon.png"
+    if (!fs.existsSync(path.dirname(fullPath))) {
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    }
+
     // Create write stream
     const writer = fs.createWriteStream(fullPath);
 
@@ -85,6 +105,25 @@ export async function downloadFigmaImage(
   }
 }
 
+/**
+ * Build the file name of an exported image from a template. Supported placeholders are {name},
+ * the requested file name without its extension, {nodeId}, {scale} and {format}, e.g.
+ * "{name}@{scale}x.{format}" or "drawable-{scale}x/{name}.{format}"
+ */
+export function formatImageFileName(
+  template: string,
+  values: { fileName: string; nodeId: string; scale: number; format: string },
+): string {
+  const replacements: Record<string, string> = {
+    name: values.fileName.replace(/\.[^./]+$/, ""),
+    // Colons and semicolons aren't allowed in file names on every platform
+    nodeId: values.nodeId.replace(/[:;]/g, "-"),
+    scale: String(values.scale),
+    format: values.format,
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => replacements[key] ?? match);
+}
+
 /**
  * Remove keys with empty arrays or empty objects from an object.
  * @param input - The input object or value.
@@ -193,17 +232,19 @@ export function formatRGBAColor(color: RGBA, opacity = 1): CSSRGBAColor {
 }
 
 /**
- * Generate a 6-character random variable ID
+ * Generate a 6-character variable ID derived from the content it identifies, so the same value
+ * always gets the same ID across runs
+ * @param content - Serialized value the ID stands for
  * @param prefix - ID prefix
- * @returns A 6-character random ID string with prefix
+ * @returns A 6-character content-derived ID string with prefix
  */
-export function generateVarId(prefix: string = "var"): StyleId {
+export function generateVarId(content: string, prefix: string = "var"): StyleId {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  const digest = createHash("sha256").update(`${prefix}:${content}`).digest();
   let result = "";
 
   for (let i = 0; i < 6; i++) {
-    const randomIndex = Math.floor(Math.random() * chars.length);
-    result += chars[randomIndex];
+    result += chars[digest[i] % chars.length];
   }
 
   return `${prefix}_${result}` as StyleId;
@@ -261,42 +302,218 @@ export function generateCSSShorthand(
   return `${top}${suffix} ${right}${suffix} ${bottom}${suffix} ${left}${suffix}`;
 }
 
+export type ParsePaintOptions = {
+  /**
+   * Resolver used to name colors bound to variables
+   */
+  resolveVariable?: VariableResolver;
+  /**
+   * Size of the node the paint is applied to, needed to compute gradient angles and image offsets
+   */
+  size?: { width: number; height: number };
+  /**
+   * If true, keep Figma's gradient handle positions and stops next to the CSS string
+   */
+  rawGradients?: boolean;
+};
+
 /**
  * Convert a Figma paint (solid, image, gradient) to a SimplifiedFill
  * @param raw - The Figma paint to convert
+ * @param options - Variable resolution, node size and raw gradient output
  * @returns The converted SimplifiedFill
  */
-export function parsePaint(raw: Paint): SimplifiedFill {
+export function parsePaint(raw: Paint, options: ParsePaintOptions = {}): SimplifiedFill {
+  const fill = convertPaint(raw, options);
+  const blendMode = convertBlendMode(raw.blendMode);
+  if (!blendMode) return fill;
+  // Plain color strings have nowhere to put the blend mode
+  if (typeof fill === "string") {
+    return fill.startsWith("#") ? { hex: fill, blendMode } : { rgba: fill, blendMode };
+  }
+  return { ...fill, blendMode };
+}
+
+/**
+ * Convert a Figma blend mode to a CSS mix-blend-mode / background-blend-mode value
+ * @returns undefined for modes that don't change how layers combine
+ */
+export function convertBlendMode(blendMode?: BlendMode): string | undefined {
+  switch (blendMode) {
+    case undefined:
+    case "PASS_THROUGH":
+    case "NORMAL":
+      return undefined;
+    // CSS has no burn/dodge variants of these, plus-darker and plus-lighter are the same operations
+    case "LINEAR_BURN":
+      return "plus-darker";
+    case "LINEAR_DODGE":
+      return "plus-lighter";
+    default:
+      return blendMode.toLowerCase().replace(/_/g, "-");
+  }
+}
+
+function convertPaint(raw: Paint, options: ParsePaintOptions): SimplifiedFill {
+  const { resolveVariable, size, rawGradients } = options;
   if (raw.type === "IMAGE") {
     return {
       type: "IMAGE",
       imageRef: raw.imageRef,
       scaleMode: raw.scaleMode,
+      scalingFactor: raw.scaleMode === "TILE" ? raw.scalingFactor : undefined,
+      ...convertImageScaling(raw, size),
     };
   } else if (raw.type === "SOLID") {
     // treat as SOLID
     const { hex, opacity } = convertColor(raw.color!, raw.opacity);
+    const variable = resolveVariable?.(raw.boundVariables?.color);
+    if (variable) {
+      return opacity === 1
+        ? { hex, variable }
+        : { rgba: formatRGBAColor(raw.color!, opacity), variable };
+    }
     if (opacity === 1) {
       return hex;
     } else {
       return formatRGBAColor(raw.color!, opacity);
     }
+  } else if (raw.type === "PATTERN") {
+    // Patterns repeat another node's render, which CSS can only reproduce with an exported image
+    return {
+      type: "PATTERN",
+      sourceNodeId: raw.sourceNodeId,
+      scalingFactor: raw.scalingFactor,
+      backgroundRepeat: "repeat",
+    };
   } else if (
-    ["GRADIENT_LINEAR", "GRADIENT_RADIAL", "GRADIENT_ANGULAR", "GRADIENT_DIAMOND"].includes(
-      raw.type,
-    )
+    raw.type === "GRADIENT_LINEAR" ||
+    raw.type === "GRADIENT_RADIAL" ||
+    raw.type === "GRADIENT_ANGULAR" ||
+    raw.type === "GRADIENT_DIAMOND"
   ) {
-    // treat as GRADIENT_LINEAR
-    return {
+    const gradient: SimplifiedFill = {
       type: raw.type,
-      gradientHandlePositions: raw.gradientHandlePositions,
-      gradientStops: raw.gradientStops.map(({ position, color }) => ({
+      gradient: convertGradient(raw, size ?? { width: 1, height: 1 }),
+    };
+    const stopVariables = Object.fromEntries(
+      raw.gradientStops
+        .map(({ boundVariables }, index) => [index, resolveVariable?.(boundVariables?.color)])
+        .filter(([, variable]) => variable),
+    );
+    if (Object.keys(stopVariables).length) gradient.variables = stopVariables;
+    if (rawGradients) {
+      gradient.gradientHandlePositions = raw.gradientHandlePositions;
+      gradient.gradientStops = raw.gradientStops.map(({ position, color, boundVariables }) => ({
         position,
         color: convertColor(color),
-      })),
-    };
+        variable: resolveVariable?.(boundVariables?.color),
+      }));
+    }
+    return gradient;
   } else {
-    throw new Error(`Unknown paint type: ${raw.type}`);
+    throw new Error(`Unknown paint type: ${(raw as Paint).type}`);
+  }
+}
+
+const round = (value: number, precision = 2) => {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Convert a gradient paint to a CSS gradient string. Figma's handle positions are normalized to the
+ * node's bounds, so they're scaled by the node size before computing angles and stop offsets.
+ */
+function convertGradient(raw: GradientPaint, size: { width: number; height: number }): string {
+  const { width, height } = size;
+  const [start, end, widthHandle] = raw.gradientHandlePositions.map(({ x, y }) => ({
+    x: x * width,
+    y: y * height,
+  }));
+  const stopColor = (color: RGBA) => {
+    const { hex, opacity } = convertColor(color, raw.opacity);
+    return opacity === 1 ? hex : formatRGBAColor(color, raw.opacity);
+  };
+  const stops = (toPosition: (position: number) => number) =>
+    raw.gradientStops
+      .map(({ position, color }) => `${stopColor(color)} ${round(toPosition(position))}%`)
+      .join(", ");
+
+  const center = `${round((start.x / width) * 100)}% ${round((start.y / height) * 100)}%`;
+  // CSS angles start at 12 o'clock and run clockwise
+  const angleOf = (from: Vector, to: Vector) =>
+    ((Math.atan2(to.x - from.x, -(to.y - from.y)) * 180) / Math.PI + 360) % 360;
+
+  switch (raw.type) {
+    case "GRADIENT_LINEAR": {
+      const angle = angleOf(start, end);
+      // The CSS gradient line passes through the box center and is sized so the corners get the
+      // first and last colors; project each Figma stop onto that line
+      const radians = (angle * Math.PI) / 180;
+      const direction = { x: Math.sin(radians), y: -Math.cos(radians) };
+      const lineLength = Math.abs(width * direction.x) + Math.abs(height * direction.y);
+      const toPosition = (position: number) => {
+        const x = start.x + (end.x - start.x) * position - width / 2;
+        const y = start.y + (end.y - start.y) * position - height / 2;
+        return ((x * direction.x + y * direction.y) / lineLength + 0.5) * 100;
+      };
+      return `linear-gradient(${round(angle)}deg, ${stops(toPosition)})`;
+    }
+    case "GRADIENT_RADIAL":
+    case "GRADIENT_DIAMOND": {
+      // CSS has no diamond gradient; a radial gradient with the same extents is the closest match
+      const radiusX = Math.hypot(end.x - start.x, end.y - start.y);
+      const radiusY = Math.hypot(widthHandle.x - start.x, widthHandle.y - start.y);
+      return `radial-gradient(ellipse ${round(radiusX)}px ${round(radiusY)}px at ${center}, ${stops((p) => p * 100)})`;
+    }
+    case "GRADIENT_ANGULAR": {
+      return `conic-gradient(from ${round(angleOf(start, end))}deg at ${center}, ${stops((p) => p * 100)})`;
+    }
+  }
+}
+
+/**
+ * Translate an image fill's scale mode and transform into CSS background properties
+ */
+function convertImageScaling(
+  raw: ImagePaint,
+  size?: { width: number; height: number },
+): Pick<
+  Exclude<SimplifiedFill, string>,
+  "backgroundSize" | "backgroundPosition" | "backgroundRepeat"
+> {
+  switch (raw.scaleMode) {
+    case "FILL":
+      return {
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+      };
+    case "FIT":
+      return {
+        backgroundSize: "contain",
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+      };
+    case "TILE":
+      // Tiles are sized by the image's intrinsic size times scalingFactor, which CSS can't express
+      return { backgroundRepeat: "repeat" };
+    case "STRETCH": {
+      // "Crop" mode: the transform maps the node's unit square into the image's unit square
+      const [[scaleX, , offsetX] = [1, 0, 0], [, scaleY, offsetY] = [0, 1, 0]] =
+        raw.imageTransform ?? [];
+      if (!scaleX || !scaleY) {
+        return { backgroundSize: "100% 100%", backgroundRepeat: "no-repeat" };
+      }
+      return {
+        backgroundSize: `${round(100 / scaleX)}% ${round(100 / scaleY)}%`,
+        backgroundPosition: size
+          ? `${round((-offsetX / scaleX) * size.width)}px ${round((-offsetY / scaleY) * size.height)}px`
+          : undefined,
+        backgroundRepeat: "no-repeat",
+      };
+    }
   }
 }
 
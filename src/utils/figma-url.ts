@@ -0,0 +1,103 @@
+export type FigmaLinkType = "design" | "file" | "proto" | "board";
+
+export interface FigmaLink {
+  linkType: FigmaLinkType;
+  fileKey: string;
+  // Set for links to a branch; API calls for the branch use this key instead of fileKey
+  branchKey?: string;
+  // In the API's colon form, e.g. "1:23"
+  nodeId?: string;
+}
+
+// Path segments of links to files the REST API can read, mapped to the link type
+const FILE_SEGMENTS: Record<string, FigmaLinkType> = {
+  design: "design",
+  file: "file",
+  proto: "proto",
+  board: "board",
+};
+
+// Links that look like files but can't be read through the REST API, with what to do instead
+const UNSUPPORTED_SEGMENTS: Record<string, string> = {
+  community:
+    "Community files can't be read through the API, duplicate the file to your drafts and use that link",
+  slides: "Figma Slides files aren't supported, only design, prototype and FigJam links are",
+  deck: "Figma Slides files aren't supported, only design, prototype and FigJam links are",
+  make: "Figma Make files aren't supported, only design, prototype and FigJam links are",
+  site: "Figma Sites files aren't supported, only design, prototype and FigJam links are",
+  files: "This is a link to a team or project page, not a file. Open the file and copy its link",
+};
+
+/**
+ * Convert a node id to the colon form the API expects. URLs use dashes, e.g. node-id=1-23, and
+ * instance sublayers chain several ids with semicolons, e.g. I1-2;3-4.
+ */
+export function normalizeNodeId(nodeId: string): string {
+  const decoded = decodeURIComponent(nodeId.trim());
+  return decoded.replace(/(\d+)-(\d+)/g, "$1:$2");
+}
+
+/**
+ * Parse a Figma link into the file key, branch key and node id it points to
+ * @throws Error explaining why the link can't be used, for links that aren't Figma files
+ */
+export function parseFigmaUrl(input: string): FigmaLink {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error(
+      `"${input}" is not a URL, pass a link such as https://www.figma.com/design/<fileKey>/<name>`,
+    );
+  }
+  if (url.hostname !== "figma.com" && !url.hostname.endsWith(".figma.com")) {
+    throw new Error(`${url.hostname} is not a Figma link`);
+  }
+
+  // Embed links wrap the file link in a query parameter
+  const embedded = url.searchParams.get("url");
+  if (url.pathname.replace(/\/$/, "") === "/embed" && embedded) return parseFigmaUrl(embedded);
+
+  const [segment, fileKey, ...rest] = url.pathname.split("/").filter(Boolean);
+  if (segment in UNSUPPORTED_SEGMENTS) {
+    throw new Error(UNSUPPORTED_SEGMENTS[segment]);
+  }
+  const linkType = FILE_SEGMENTS[segment];
+  if (!linkType || !fileKey) {
+    throw new Error(
+      `${url.href} is not a link to a Figma file, expected figma.com/design/<fileKey>/... or figma.com/proto/<fileKey>/...`,
+    );
+  }
+
+  const branchKey = rest[0] === "branch" && rest[1] ? rest[1] : undefined;
+  const nodeId = url.searchParams.get("node-id");
+  return {
+    linkType,
+    fileKey,
+    branchKey,
+    nodeId: nodeId ? normalizeNodeId(nodeId) : undefined,
+  };
+}
+
+/**
+ * Resolve the file and node a tool call targets, from a Figma link or an explicit file key. A
+ * nodeId passed alongside the link takes precedence over the link's node-id.
+ * @throws Error when neither a link nor a file key is given, or the link can't be used
+ */
+export function resolveFigmaTarget(
+  url: string | undefined,
+  fileKey: string | undefined,
+  nodeId?: string,
+): { fileKey: string; nodeId?: string } {
+  if (url) {
+    const link = parseFigmaUrl(url);
+    return {
+      fileKey: link.branchKey ?? link.fileKey,
+      nodeId: nodeId ? normalizeNodeId(nodeId) : link.nodeId,
+    };
+  }
+  if (!fileKey) {
+    throw new Error("Pass either a Figma url or a fileKey");
+  }
+  return { fileKey, nodeId: nodeId ? normalizeNodeId(nodeId) : undefined };
+}
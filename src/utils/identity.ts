@@ -3,6 +3,7 @@ import type {
   HasLayoutTrait,
   StrokeWeights,
   HasFramePropertiesTrait,
+  Vector,
 } from "@figma/rest-api-spec";
 import { isTruthy } from "remeda";
 import { CSSHexColor, CSSRGBAColor } from "~/services/simplify-node-response.js";
@@ -72,6 +73,17 @@ export function isRectangle<T, K extends string>(
   );
 }
 
+export function isVector(val: unknown): val is Vector {
+  return (
+    typeof val === "object" &&
+    val !== null &&
+    "x" in val &&
+    "y" in val &&
+    typeof val.x === "number" &&
+    typeof val.y === "number"
+  );
+}
+
 export function isRectangleCornerRadii(val: unknown): val is number[] {
   return Array.isArray(val) && val.length === 4 && val.every((v) => typeof v === "number");
 }